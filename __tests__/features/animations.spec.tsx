@@ -0,0 +1,238 @@
+import { act } from "@testing-library/react";
+
+import {
+  flushAnimations,
+  runAnimationFrame,
+  simulatePan,
+} from "../../src/testing";
+import { renderExample } from "../shared/render.shared";
+
+describe("Animations", () => {
+  test("it animates with the custom easing function", () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, setTransform } = renderPropsValues;
+    const easing = jest.fn((t: number) => t * t);
+
+    act(() => {
+      setTransform(-100, -100, 1.5, 200, easing);
+      flushAnimations();
+    });
+
+    expect(easing).toHaveBeenCalled();
+    expect(instance.transformState.scale).toBe(1.5);
+    expect(instance.transformState.positionX).toBe(-100);
+  });
+  test("it animates with the cubic-bezier string", () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, setTransform } = renderPropsValues;
+
+    act(() => {
+      setTransform(-200, -50, 2, 200, "cubic-bezier(0.25, 0.1, 0.25, 1)");
+      runAnimationFrame();
+      runAnimationFrame();
+    });
+
+    expect(instance.transformState.scale).toBeGreaterThan(1);
+    expect(instance.transformState.scale).toBeLessThan(2);
+
+    act(() => {
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(2);
+    expect(instance.transformState.positionX).toBe(-200);
+    expect(instance.transformState.positionY).toBe(-50);
+  });
+  test("it settles the spring animation at the target", () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, setTransform } = renderPropsValues;
+
+    act(() => {
+      setTransform(-300, -100, 2, 300, { type: "spring", stiffness: 200 });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(2);
+    expect(instance.transformState.positionX).toBe(-300);
+    expect(instance.transformState.positionY).toBe(-100);
+    expect(instance.springVelocity).toBeNull();
+  });
+  test("it keeps the spring velocity when retargeted", () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, setTransform } = renderPropsValues;
+    const spring = { type: "spring" as const };
+
+    act(() => {
+      setTransform(-400, 0, 1, 300, spring);
+      runAnimationFrame();
+      runAnimationFrame();
+      runAnimationFrame();
+    });
+
+    const velocityX = instance.springVelocity?.positionX ?? 0;
+    expect(velocityX).toBeLessThan(0);
+
+    act(() => {
+      setTransform(0, -400, 1, 300, spring);
+    });
+
+    expect(instance.springVelocity?.positionX).toBe(velocityX);
+
+    act(() => {
+      flushAnimations();
+    });
+
+    expect(instance.transformState.positionX).toBe(0);
+    expect(instance.transformState.positionY).toBe(-400);
+  });
+  test("it resolves the handler with the completed animation state", async () => {
+    const { renderPropsValues } = renderExample();
+    const { setTransform } = renderPropsValues;
+    let result: ReturnType<typeof setTransform> | null = null;
+
+    act(() => {
+      result = setTransform(-100, -50, 2, 200);
+      flushAnimations();
+    });
+
+    await expect(result).resolves.toEqual({
+      state: expect.objectContaining({ scale: 2, positionX: -100 }),
+      completed: true,
+    });
+  });
+  test("it resolves the interrupted animation as not completed", async () => {
+    const { wrapper, renderPropsValues } = renderExample();
+    const { zoomIn } = renderPropsValues;
+    let result: ReturnType<typeof zoomIn> | null = null;
+
+    act(() => {
+      result = zoomIn(0.5, 300);
+      runAnimationFrame();
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 200, y: 200 });
+    });
+
+    await expect(result).resolves.toMatchObject({ completed: false });
+  });
+  test("it stops the animation when the signal is aborted", async () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, setTransform } = renderPropsValues;
+    const controller = new AbortController();
+    let result: ReturnType<typeof setTransform> | null = null;
+
+    act(() => {
+      result = setTransform(-200, -200, 2, 300, "linear", 0, controller.signal);
+      runAnimationFrame();
+      controller.abort();
+      flushAnimations();
+    });
+
+    const { state, completed } = await result!;
+    expect(completed).toBe(false);
+    expect(state.scale).toBeLessThan(2);
+    expect(instance.transformState.scale).toBe(state.scale);
+  });
+  test("it zooms out during the fly-to animation", () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, setTransform } = renderPropsValues;
+    const scales: number[] = [];
+
+    act(() => {
+      setTransform(-4000, -3000, 1.5, 300, { type: "flyTo" });
+      while (instance.animation) {
+        runAnimationFrame();
+        scales.push(instance.transformState.scale);
+      }
+    });
+
+    expect(Math.min(...scales)).toBeLessThan(1);
+    // The duration is based on the distance, not on the animationTime
+    expect(scales.length * 16).toBeGreaterThan(300);
+    expect(instance.transformState.scale).toBe(1.5);
+    expect(instance.transformState.positionX).toBe(-4000);
+    expect(instance.transformState.positionY).toBe(-3000);
+  });
+  test("it settles the running animation when another one starts", async () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, zoomIn, setTransform } = renderPropsValues;
+    let zoomResult: ReturnType<typeof zoomIn> | null = null;
+    let transformResult: ReturnType<typeof setTransform> | null = null;
+
+    act(() => {
+      zoomResult = zoomIn(0.5, 300);
+      runAnimationFrame();
+      transformResult = setTransform(10, 10, 1, 0);
+    });
+
+    await expect(zoomResult).resolves.toMatchObject({ completed: false });
+    await expect(transformResult).resolves.toEqual({
+      state: expect.objectContaining({ scale: 1, positionX: 10 }),
+      completed: true,
+    });
+
+    act(() => {
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(1);
+    expect(instance.transformState.positionX).toBe(10);
+    expect(instance.transformState.positionY).toBe(10);
+  });
+  test("it resolves the no-op call during the animation at once", async () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, setTransform, centerView } = renderPropsValues;
+    let transformResult: ReturnType<typeof setTransform> | null = null;
+    let centerResult: ReturnType<typeof centerView> | null = null;
+
+    act(() => {
+      transformResult = setTransform(-200, -200, 2, 300);
+      runAnimationFrame();
+      const { scale } = instance.transformState;
+      centerResult = centerView(scale, 0);
+    });
+
+    await expect(transformResult).resolves.toMatchObject({ completed: false });
+    await expect(centerResult).resolves.toMatchObject({ completed: true });
+
+    const { state } = await centerResult!;
+    act(() => {
+      flushAnimations();
+    });
+    expect(instance.transformState).toMatchObject(state);
+  });
+  test("it resolves the call without any change as not completed", async () => {
+    const { renderPropsValues } = renderExample({ disabled: true });
+    const { setTransform, zoomToElement, zoomToRect } = renderPropsValues;
+    let transformResult: ReturnType<typeof setTransform> | null = null;
+    let elementResult: ReturnType<typeof zoomToElement> | null = null;
+    let rectResult: ReturnType<typeof zoomToRect> | null = null;
+
+    act(() => {
+      transformResult = setTransform(-100, -100, 2, 0);
+      elementResult = zoomToElement("missing-node", 2, 0);
+      rectResult = zoomToRect({ x: 0, y: 0, width: 0, height: 100 }, {}, 0);
+    });
+
+    await expect(transformResult).resolves.toMatchObject({ completed: false });
+    await expect(elementResult).resolves.toMatchObject({ completed: false });
+    await expect(rectResult).resolves.toMatchObject({ completed: false });
+  });
+  test("it resolves the controlled call with the proposed state", async () => {
+    const { renderPropsValues } = renderExample({
+      transform: { scale: 1, positionX: 0, positionY: 0 },
+    });
+    const { instance, setTransform } = renderPropsValues;
+    let result: ReturnType<typeof setTransform> | null = null;
+
+    act(() => {
+      result = setTransform(-100, -50, 2, 200);
+      flushAnimations();
+    });
+
+    await expect(result).resolves.toEqual({
+      state: expect.objectContaining({ scale: 2, positionX: -100 }),
+      completed: true,
+    });
+    // The parent didn't accept the change
+    expect(instance.transformState.scale).toBe(1);
+  });
+});
@@ -0,0 +1,130 @@
+import React, { useLayoutEffect, useState } from "react";
+import { act, render, screen } from "@testing-library/react";
+
+import {
+  ReactZoomPanPinchProps,
+  TransformComponent,
+  TransformWrapper,
+} from "../../src";
+import {
+  flushAnimations,
+  mockContentSize,
+  mockElementSize,
+  simulatePan,
+} from "../../src/testing";
+
+type TransformType = NonNullable<ReactZoomPanPinchProps["transform"]>;
+
+const ControlledExample = ({
+  accept,
+}: {
+  accept: (state: TransformType) => boolean;
+}) => {
+  const [transform, setTransform] = useState<TransformType>({
+    scale: 1,
+    positionX: 0,
+    positionY: 0,
+  });
+
+  return (
+    <TransformWrapper
+      transform={transform}
+      panning={{ velocityDisabled: true }}
+      // act() renders the parent after the whole gesture, so the alignment
+      // at the end of the panning would still see the old transform
+      alignmentAnimation={{ disabled: true }}
+      onTransformChange={(_, state) => {
+        if (accept(state)) setTransform(state);
+      }}
+    >
+      <TransformComponent
+        wrapperProps={
+          { "data-testid": "wrapper" } as React.HTMLAttributes<HTMLDivElement>
+        }
+        contentProps={
+          { "data-testid": "content" } as React.HTMLAttributes<HTMLDivElement>
+        }
+      >
+        <div>Content</div>
+      </TransformComponent>
+    </TransformWrapper>
+  );
+};
+
+const renderControlled = (accept: (state: TransformType) => boolean) => {
+  render(<ControlledExample accept={accept} />);
+  const wrapper = screen.getByTestId("wrapper");
+  const content = screen.getByTestId("content");
+
+  act(() => {
+    mockElementSize(wrapper, { width: 500, height: 500 });
+    mockContentSize(content, { width: 1000, height: 1000 });
+  });
+
+  return { wrapper, content };
+};
+
+const LayoutProbe = ({ onLayout }: { onLayout: () => void }) => {
+  // Sibling layout effects run after the wrapper ones and before the paint
+  useLayoutEffect(onLayout);
+  return null;
+};
+
+describe("Controlled transform", () => {
+  test("it renders the transform accepted by the parent", () => {
+    const { wrapper, content } = renderControlled(() => true);
+
+    act(() => {
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 200, y: 200 });
+      flushAnimations();
+    });
+
+    expect(content.style.transform).toBe("translate(-100px, -100px) scale(1)");
+  });
+  test("it ignores the transform rejected by the parent", () => {
+    const { wrapper, content } = renderControlled(() => false);
+
+    act(() => {
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 200, y: 200 });
+      flushAnimations();
+    });
+
+    expect(content.style.transform).toBe("translate(0px, 0px) scale(1)");
+  });
+  test("it applies the axis scale change before the paint", () => {
+    const layoutTransforms: string[] = [];
+    const renderTransform = (transform: TransformType) => (
+      <>
+        <TransformWrapper transform={transform}>
+          <TransformComponent
+            contentProps={
+              {
+                "data-testid": "content",
+              } as React.HTMLAttributes<HTMLDivElement>
+            }
+          >
+            <div>Content</div>
+          </TransformComponent>
+        </TransformWrapper>
+        <LayoutProbe
+          onLayout={() => {
+            layoutTransforms.push(
+              screen.getByTestId("content").style.transform,
+            );
+          }}
+        />
+      </>
+    );
+    const { rerender } = render(
+      renderTransform({ scale: 1, positionX: 0, positionY: 0 }),
+    );
+
+    rerender(
+      renderTransform({ scale: 1, positionX: 0, positionY: 0, scaleX: 2 }),
+    );
+
+    expect(layoutTransforms[layoutTransforms.length - 1]).toBe(
+      "translate(0px, 0px) scale(2, 1)",
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { act } from "@testing-library/react";
+
+import { getContentPosition } from "../../src/core/rotation/rotation.utils";
+import { renderExample } from "../shared/render.shared";
+
+describe("Coordinates", () => {
+  test("it converts between the screen and the content coordinates", () => {
+    const { renderPropsValues } = renderExample();
+    const { instance } = renderPropsValues;
+
+    act(() => {
+      instance.setTransformState(2, -100, -50);
+    });
+
+    expect(instance.screenToContent({ x: 100, y: 50 })).toEqual({
+      x: 100,
+      y: 50,
+    });
+    expect(instance.contentToScreen({ x: 100, y: 50 })).toEqual({
+      x: 100,
+      y: 50,
+    });
+    expect(instance.contentToWrapper({ x: 0, y: 0 })).toEqual({
+      x: -100,
+      y: -50,
+    });
+  });
+  test("it matches the pointer position of the rotated content", () => {
+    const { content, renderPropsValues } = renderExample();
+    const { instance } = renderPropsValues;
+
+    act(() => {
+      instance.setTransformState(1.5, 300, -100, 30, 1.2, 0.8);
+    });
+
+    const point = instance.screenToContent({ x: 220, y: 140 });
+    const expected = getContentPosition(
+      220,
+      140,
+      content as HTMLDivElement,
+      1.5,
+      30,
+      1.2,
+      0.8,
+    );
+
+    expect(point.x).toBeCloseTo(expected.x);
+    expect(point.y).toBeCloseTo(expected.y);
+
+    const screenPoint = instance.contentToScreen(point);
+    expect(screenPoint.x).toBeCloseTo(220);
+    expect(screenPoint.y).toBeCloseTo(140);
+  });
+});
@@ -0,0 +1,494 @@
+import React from "react";
+import { act, screen } from "@testing-library/react";
+
+import { calculateBounds } from "../../src/core/bounds/bounds.utils";
+import {
+  flushAnimations,
+  mockContentSize,
+  simulatePan,
+  simulatePinch,
+  simulateWheel,
+} from "../../src/testing";
+import { renderExample } from "../shared/render.shared";
+
+describe("Gestures", () => {
+  describe("When content is panned", () => {
+    test("it moves the content with the mouse", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        panning: { velocityDisabled: true },
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePan(wrapper, { x: 300, y: 300 }, { x: 200, y: 250 });
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(-100);
+      expect(transformState.positionY).toBe(-50);
+    });
+    test("it moves the content with the pointer events", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        inputMode: "pointer",
+        panning: { velocityDisabled: true },
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePan(
+          wrapper,
+          { x: 300, y: 300 },
+          { x: 250, y: 200 },
+          {
+            pointerType: "touch",
+          },
+        );
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(-50);
+      expect(transformState.positionY).toBe(-100);
+    });
+    test("it keeps the content in bounds", () => {
+      const { wrapper, renderPropsValues } = renderExample();
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePan(wrapper, { x: 100, y: 100 }, { x: 300, y: 300 });
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(0);
+      expect(transformState.positionY).toBe(0);
+    });
+  });
+  describe("When content is zoomed", () => {
+    test("it zooms in with the wheel", () => {
+      const { wrapper, renderPropsValues } = renderExample();
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulateWheel(wrapper, { deltaY: -100 });
+        flushAnimations();
+      });
+
+      expect(transformState.scale).toBeGreaterThan(1);
+    });
+    test("it zooms in with the pinch", () => {
+      const { wrapper, renderPropsValues } = renderExample();
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePinch(wrapper, { fromDistance: 100, toDistance: 200 });
+        flushAnimations();
+      });
+
+      expect(transformState.scale).toBeGreaterThan(1);
+    });
+    test("it finishes the zoom animation", () => {
+      const { zoomInBtn, renderPropsValues } = renderExample();
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        zoomInBtn.click();
+        flushAnimations();
+      });
+
+      expect(transformState.scale).toBeCloseTo(Math.exp(0.5), 2);
+    });
+  });
+  describe("When single axis is zoomed", () => {
+    test("it zooms only the X axis with the wheel", () => {
+      const { wrapper, content, renderPropsValues } = renderExample({
+        wheel: { axis: "x" },
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulateWheel(wrapper, { deltaY: -100 });
+        flushAnimations();
+      });
+
+      expect(transformState.scale).toBe(1);
+      expect(transformState.scaleX).toBeGreaterThan(1);
+      expect(transformState.scaleY).toBe(1);
+      // The content point under the cursor stays in place
+      expect(transformState.positionX).toBeCloseTo(
+        250 - 250 * transformState.scaleX,
+        1,
+      );
+      expect(transformState.positionY).toBe(0);
+      expect(content.style.transform).toContain(
+        `scale(${transformState.scaleX}, 1)`,
+      );
+    });
+    test("it zooms the dominant axis with the pinch", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        pinch: { axis: "dominant" },
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePinch(wrapper, {
+          fromDistance: 100,
+          toDistance: 200,
+          fromAngle: 80,
+        });
+        flushAnimations();
+      });
+
+      expect(transformState.scale).toBe(1);
+      expect(transformState.scaleX).toBe(1);
+      expect(transformState.scaleY).toBeCloseTo(2, 1);
+    });
+  });
+  describe("When zoom levels are set", () => {
+    const zoomLevels = [0.5, 1, 2, 4];
+
+    test("it steps to the next level with the buttons", () => {
+      const { zoomInBtn, zoomOutBtn, renderPropsValues } = renderExample({
+        zoomLevels,
+        minScale: 0.5,
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        zoomInBtn.click();
+        flushAnimations();
+      });
+      expect(transformState.scale).toBe(2);
+
+      act(() => {
+        zoomOutBtn.click();
+        flushAnimations();
+        zoomOutBtn.click();
+        flushAnimations();
+      });
+      expect(transformState.scale).toBe(0.5);
+    });
+    test("it steps one level for each wheel zoom", () => {
+      const { wrapper, renderPropsValues } = renderExample({ zoomLevels });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulateWheel(wrapper, { deltaY: -100 });
+        simulateWheel(wrapper, { deltaY: -100 });
+        flushAnimations();
+      });
+      expect(transformState.scale).toBe(2);
+
+      act(() => {
+        simulateWheel(wrapper, { deltaY: -100 });
+        flushAnimations();
+      });
+      expect(transformState.scale).toBe(4);
+    });
+    test("it snaps to the nearest level after the pinch", () => {
+      const { wrapper, renderPropsValues } = renderExample({ zoomLevels });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePinch(wrapper, { fromDistance: 100, toDistance: 230 });
+        flushAnimations();
+      });
+
+      expect(transformState.scale).toBe(2);
+    });
+  });
+  describe("When snap is set", () => {
+    const panning = { velocityDisabled: true };
+
+    test("it settles the panning on the grid", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        panning,
+        snap: { gridX: 100, gridY: 100 },
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePan(wrapper, { x: 300, y: 300 }, { x: 170, y: 230 });
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(-100);
+      expect(transformState.positionY).toBe(-100);
+    });
+    test("it settles the panning on the nearest custom target", () => {
+      const getSnapTargets = jest.fn(() => [
+        { x: 0, y: 0 },
+        { x: -250, y: -250 },
+      ]);
+      const { wrapper, renderPropsValues } = renderExample({
+        panning,
+        getSnapTargets,
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePan(wrapper, { x: 300, y: 300 }, { x: 100, y: 100 });
+        flushAnimations();
+      });
+
+      expect(getSnapTargets).toHaveBeenCalledWith(
+        expect.objectContaining({ state: expect.any(Object) }),
+        { x: -200, y: -200 },
+      );
+      expect(transformState.positionX).toBe(-250);
+      expect(transformState.positionY).toBe(-250);
+    });
+    test("it aligns the pages below the viewport insets", () => {
+      const { wrapper, content, renderPropsValues } = renderExample(
+        {
+          panning,
+          viewportInsets: { top: 50 },
+          snap: { pageSelector: "[data-page]" },
+        },
+        [0, 500].map((top) => (
+          <div key={top} data-page data-testid={`page-${top}`} />
+        )),
+      );
+      const { transformState } = renderPropsValues.instance;
+
+      [0, 500].forEach((top) => {
+        Object.defineProperty(
+          screen.getByTestId(`page-${top}`),
+          "getBoundingClientRect",
+          {
+            value: () => {
+              const contentRect = content.getBoundingClientRect();
+              return { left: contentRect.left, top: contentRect.top + top };
+            },
+          },
+        );
+      });
+
+      // From the first page below the inset, closer to the second one
+      act(() => {
+        simulatePan(wrapper, { x: 300, y: 300 }, { x: 300, y: 0 });
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(0);
+      expect(transformState.positionY).toBe(50 - 500);
+    });
+  });
+  describe("When bounds strategy is set", () => {
+    const panning = { velocityDisabled: true };
+
+    test("it pans the content edge up to the wrapper center", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        panning,
+        boundsStrategy: "center",
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePan(wrapper, { x: 100, y: 100 }, { x: 450, y: 450 });
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(250);
+      expect(transformState.positionY).toBe(250);
+    });
+    test("it applies the strategy changed at runtime", () => {
+      const { wrapper, renderPropsValues, rerender } = renderExample({
+        panning,
+      });
+      const { instance } = renderPropsValues;
+
+      rerender({ panning, boundsStrategy: "center" });
+
+      expect(instance.bounds).toEqual({
+        minPositionX: -750,
+        maxPositionX: 250,
+        minPositionY: -750,
+        maxPositionY: 250,
+      });
+
+      act(() => {
+        simulatePan(wrapper, { x: 100, y: 100 }, { x: 450, y: 450 });
+        flushAnimations();
+      });
+
+      expect(instance.transformState.positionX).toBe(250);
+      expect(instance.transformState.positionY).toBe(250);
+    });
+    test("it lets the content overscroll by the margin", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        panning,
+        boundsStrategy: "overscroll",
+        boundsMargin: 50,
+      });
+      const { instance, setTransform } = renderPropsValues;
+      const { transformState } = instance;
+
+      act(() => {
+        setTransform(0, 0, 1, 0);
+        simulatePan(wrapper, { x: 450, y: 300 }, { x: -150, y: 280 });
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(-550);
+      expect(transformState.positionY).toBe(-20);
+    });
+    test("it limits the content with the custom bounds", () => {
+      const boundsStrategy = jest.fn(() => ({
+        minPositionX: 0,
+        maxPositionX: 0,
+        minPositionY: -100,
+        maxPositionY: 0,
+      }));
+      const { wrapper, renderPropsValues } = renderExample({
+        panning,
+        boundsStrategy,
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePan(wrapper, { x: 300, y: 300 }, { x: 100, y: 100 });
+        flushAnimations();
+      });
+
+      expect(boundsStrategy).toHaveBeenCalledWith(
+        expect.objectContaining({ scale: 1 }),
+        expect.objectContaining({ wrapperWidth: 500, newContentWidth: 1000 }),
+      );
+      expect(transformState.positionX).toBe(0);
+      expect(transformState.positionY).toBe(-100);
+    });
+  });
+  describe("When elastic overscroll is enabled", () => {
+    const alignmentAnimation = { elastic: true };
+
+    test("it resists the panning past the bounds and springs back", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        alignmentAnimation,
+        panning: { velocityDisabled: true },
+      });
+      const { instance, setTransform } = renderPropsValues;
+      const { transformState } = instance;
+
+      act(() => {
+        setTransform(0, 0, 1, 0);
+        simulatePan(wrapper, { x: 100, y: 100 }, { x: 300, y: 100 });
+      });
+
+      expect(transformState.positionX).toBeGreaterThan(0);
+      expect(transformState.positionX).toBeLessThan(50);
+
+      act(() => {
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(0);
+    });
+    test("it resists the wheel panning as much as the drag", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        alignmentAnimation,
+        wheel: { wheelDisabled: true },
+        panning: { velocityDisabled: true, wheelPanning: true },
+      });
+      const { instance, setTransform } = renderPropsValues;
+
+      act(() => {
+        setTransform(0, 0, 1, 0);
+        simulatePan(wrapper, { x: 100, y: 100 }, { x: 300, y: 100 });
+      });
+      const dragPositionX = instance.transformState.positionX;
+
+      act(() => {
+        flushAnimations();
+        for (let i = 0; i < 4; i += 1) {
+          simulateWheel(wrapper, { deltaX: -50, deltaY: 0 });
+        }
+      });
+
+      expect(instance.transformState.positionX).toBeCloseTo(dragPositionX, 1);
+    });
+    test("it resists the pinch past the max scale and springs back", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        alignmentAnimation,
+        maxScale: 2,
+      });
+      const { transformState } = renderPropsValues.instance;
+      const scales: number[] = [];
+
+      act(() => {
+        simulatePinch(wrapper, { fromDistance: 100, toDistance: 400 });
+        scales.push(transformState.scale);
+        flushAnimations();
+      });
+
+      expect(scales[0]).toBeGreaterThan(2);
+      expect(scales[0]).toBeLessThan(3);
+      expect(transformState.scale).toBe(2);
+    });
+  });
+  describe("When content is rotated", () => {
+    test("it rotates the content with the pinch", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        pinch: { allowRotation: true },
+      });
+      const { instance } = renderPropsValues;
+      const center = { x: 250, y: 250 };
+      const point = instance.screenToContent(center);
+
+      act(() => {
+        simulatePinch(wrapper, {
+          center,
+          fromDistance: 100,
+          toDistance: 200,
+          fromAngle: 0,
+          toAngle: 30,
+        });
+        flushAnimations();
+      });
+
+      expect(instance.transformState.rotation).toBeCloseTo(30);
+      expect(instance.transformState.scale).toBeGreaterThan(1);
+
+      // The content point under the fingers stays under them
+      const screenPoint = instance.contentToScreen(point);
+      expect(screenPoint.x).toBeCloseTo(center.x, 0);
+      expect(screenPoint.y).toBeCloseTo(center.y, 0);
+    });
+    test("it ignores the pinch rotation when it's not allowed", () => {
+      const { wrapper, renderPropsValues } = renderExample();
+      const { instance } = renderPropsValues;
+
+      act(() => {
+        simulatePinch(wrapper, { toDistance: 200, toAngle: 45 });
+        flushAnimations();
+      });
+
+      expect(instance.transformState.rotation).toBe(0);
+      expect(instance.transformState.scale).toBeGreaterThan(1);
+    });
+    test("it bounds the rotated box of the non-square content", () => {
+      const { wrapper, content, renderPropsValues } = renderExample();
+      const { instance } = renderPropsValues;
+
+      act(() => {
+        mockContentSize(content, { width: 1000, height: 400 });
+        instance.setTransformState(1, 0, 0, 90);
+      });
+
+      // Rotated by 90 degrees the content is 400 wide and 1000 high,
+      // and it spans from -400 to 0 on the x axis of the transform origin
+      expect(calculateBounds(instance, 1, 90)).toEqual({
+        minPositionX: 450,
+        maxPositionX: 450,
+        minPositionY: -500,
+        maxPositionY: 0,
+      });
+
+      act(() => {
+        simulatePan(wrapper, { x: 250, y: 250 }, { x: -500, y: -1000 });
+        flushAnimations();
+      });
+
+      expect(instance.transformState.positionX).toBeCloseTo(450);
+      expect(instance.transformState.positionY).toBeCloseTo(-500);
+    });
+  });
+});
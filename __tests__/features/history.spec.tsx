@@ -0,0 +1,60 @@
+import { act } from "@testing-library/react";
+
+import { flushAnimations, simulatePan } from "../../src/testing";
+import { renderExample } from "../shared/render.shared";
+
+describe("History", () => {
+  test("it goes back and forward through the settled transformations", () => {
+    const { wrapper, zoomInBtn, renderPropsValues } = renderExample({
+      panning: { velocityDisabled: true },
+    });
+    const { instance, goBack, goForward, canGoBack, canGoForward } =
+      renderPropsValues;
+
+    expect(canGoBack()).toBe(false);
+
+    act(() => {
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 200, y: 200 });
+      flushAnimations();
+      zoomInBtn.click();
+      flushAnimations();
+    });
+
+    expect(instance.historyEntries).toHaveLength(3);
+    expect(canGoBack()).toBe(true);
+
+    act(() => {
+      goBack();
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(1);
+    expect(instance.transformState.positionX).toBe(-100);
+    expect(canGoForward()).toBe(true);
+
+    act(() => {
+      goForward();
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBeGreaterThan(1);
+    expect(canGoForward()).toBe(false);
+  });
+  test("it drops the forward entries after the new transformation", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      panning: { velocityDisabled: true },
+    });
+    const { goBack, canGoForward } = renderPropsValues;
+
+    act(() => {
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 200, y: 200 });
+      flushAnimations();
+      goBack();
+      flushAnimations();
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 250, y: 250 });
+      flushAnimations();
+    });
+
+    expect(canGoForward()).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { act, fireEvent } from "@testing-library/react";
+
+import { flushAnimations } from "../../src/testing";
+import { renderExample } from "../shared/render.shared";
+
+const pressKey = (target: HTMLElement, key: string) => {
+  fireEvent.keyDown(target, { key });
+  act(() => {
+    flushAnimations();
+  });
+};
+
+describe("Keyboard", () => {
+  test("it is disabled and not focusable by default", () => {
+    const { wrapper, renderPropsValues } = renderExample();
+    const { instance } = renderPropsValues;
+
+    expect(wrapper.hasAttribute("tabindex")).toBe(false);
+
+    pressKey(wrapper, "ArrowRight");
+    expect(instance.transformState.positionX).toBe(0);
+  });
+  test("it pans with the arrow keys", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      keyboard: { disabled: false, panStep: 50 },
+    });
+    const { instance } = renderPropsValues;
+
+    expect(wrapper.getAttribute("tabindex")).toBe("0");
+
+    pressKey(wrapper, "ArrowRight");
+    pressKey(wrapper, "ArrowDown");
+    expect(instance.transformState.positionX).toBe(-50);
+    expect(instance.transformState.positionY).toBe(-50);
+
+    pressKey(wrapper, "ArrowLeft");
+    expect(instance.transformState.positionX).toBe(0);
+
+    // Bounded by the content edge
+    pressKey(wrapper, "ArrowLeft");
+    expect(instance.transformState.positionX).toBe(0);
+  });
+  test("it zooms and resets with the keys", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      keyboard: { disabled: false },
+    });
+    const { instance } = renderPropsValues;
+
+    pressKey(wrapper, "+");
+    expect(instance.transformState.scale).toBeGreaterThan(1);
+
+    const { scale } = instance.transformState;
+    pressKey(wrapper, "-");
+    expect(instance.transformState.scale).toBeLessThan(scale);
+
+    pressKey(wrapper, "=");
+    pressKey(wrapper, "ArrowRight");
+    pressKey(wrapper, "0");
+    expect(instance.transformState.scale).toBe(1);
+    expect(instance.transformState.positionX).toBe(0);
+    expect(instance.transformState.positionY).toBe(0);
+  });
+  test("it fits the content into the viewport", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      minScale: 0.1,
+      keyboard: { disabled: false },
+    });
+    const { instance, setTransform } = renderPropsValues;
+
+    act(() => {
+      setTransform(-100, -100, 2, 0);
+    });
+
+    pressKey(wrapper, "1");
+    expect(instance.transformState.scale).toBe(0.5);
+    expect(instance.transformState.positionX).toBe(0);
+    expect(instance.transformState.positionY).toBe(0);
+  });
+  test("it fits the content stretched by the axis scale", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      minScale: 0.1,
+      keyboard: { disabled: false },
+    });
+    const { instance } = renderPropsValues;
+
+    act(() => {
+      instance.setTransformState(1, 0, 0, 0, 2, 1);
+    });
+
+    pressKey(wrapper, "1");
+    expect(instance.transformState.scale).toBe(0.25);
+    expect(instance.transformState.scaleX).toBe(2);
+    expect(instance.transformState.positionX).toBe(0);
+    expect(instance.transformState.positionY).toBe(125);
+  });
+  test("it uses the custom key map", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      keyboard: { disabled: false, panRightKeys: ["d"], resetKeys: ["r"] },
+    });
+    const { instance } = renderPropsValues;
+
+    pressKey(wrapper, "ArrowRight");
+    expect(instance.transformState.positionX).toBe(0);
+
+    pressKey(wrapper, "d");
+    expect(instance.transformState.positionX).toBe(-50);
+
+    pressKey(wrapper, "0");
+    expect(instance.transformState.positionX).toBe(-50);
+
+    pressKey(wrapper, "r");
+    expect(instance.transformState.positionX).toBe(0);
+  });
+  test("it ignores the keys when the focus is outside of the wrapper", () => {
+    const { zoomInBtn, renderPropsValues } = renderExample({
+      keyboard: { disabled: false },
+    });
+    const { instance } = renderPropsValues;
+
+    pressKey(zoomInBtn, "ArrowRight");
+    pressKey(document.body, "+");
+
+    expect(instance.transformState.positionX).toBe(0);
+    expect(instance.transformState.scale).toBe(1);
+  });
+});
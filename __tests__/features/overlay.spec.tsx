@@ -0,0 +1,59 @@
+import React from "react";
+import { act, screen } from "@testing-library/react";
+
+import { Overlay, OverlayProps } from "../../src";
+import { renderExample } from "../shared/render.shared";
+
+const renderOverlay = (props: OverlayProps) => {
+  const { renderPropsValues } = renderExample(
+    {},
+    <>
+      <div />
+      <Overlay {...props} data-testid="overlay" />
+    </>,
+  );
+
+  return {
+    instance: renderPropsValues.instance,
+    overlay: screen.getByTestId("overlay"),
+  };
+};
+
+describe("Overlay", () => {
+  test("it renders outside of the scaled content", () => {
+    const { overlay } = renderOverlay({ x: 100, y: 200 });
+
+    expect(screen.getByTestId("wrapper").contains(overlay)).toBe(true);
+    expect(screen.getByTestId("content").contains(overlay)).toBe(false);
+  });
+  test("it follows the content position at the anchor", () => {
+    const { instance, overlay } = renderOverlay({
+      x: 100,
+      y: 200,
+      anchor: "bottom-center",
+    });
+
+    act(() => {
+      instance.setTransformState(2, -50, -100);
+    });
+
+    expect(overlay.style.transform).toBe(
+      "translate(150px, 300px) translate(-50%, -100%)",
+    );
+  });
+  test("it hides the overlay outside of the viewport", () => {
+    const { instance, overlay } = renderOverlay({
+      x: 100,
+      y: 200,
+      hideOffscreen: true,
+    });
+
+    expect(overlay.style.visibility).toBe("visible");
+
+    act(() => {
+      instance.setTransformState(1, -300, 0);
+    });
+
+    expect(overlay.style.visibility).toBe("hidden");
+  });
+});
@@ -0,0 +1,186 @@
+import { act, fireEvent } from "@testing-library/react";
+
+import {
+  createPointerEvent,
+  flushAnimations,
+  PointerKindType,
+  simulatePan,
+  simulatePinch,
+  TestPointerType,
+} from "../../src/testing";
+import { renderExample } from "../shared/render.shared";
+
+const dispatchPointer = (
+  wrapper: HTMLElement,
+  type: string,
+  pointer: TestPointerType,
+  pointerType: PointerKindType = "touch",
+) => {
+  act(() => {
+    wrapper.dispatchEvent(createPointerEvent(type, pointer, pointerType));
+  });
+};
+
+const mockPointerCapture = (wrapper: HTMLElement) => {
+  const captured = new Set<number>();
+  const release = jest.fn((pointerId: number) => captured.delete(pointerId));
+
+  Object.assign(wrapper, {
+    setPointerCapture: (pointerId: number) => captured.add(pointerId),
+    hasPointerCapture: (pointerId: number) => captured.has(pointerId),
+    releasePointerCapture: release,
+  });
+
+  return { captured, release };
+};
+
+describe("Pointer input", () => {
+  test("it pinches the content with two pointers", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      inputMode: "pointer",
+    });
+    const { instance } = renderPropsValues;
+
+    act(() => {
+      simulatePinch(wrapper, { fromDistance: 100, toDistance: 200 });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBeGreaterThan(1.5);
+    expect(instance.activeTouches).toHaveLength(0);
+  });
+  test("it stops the panning on pointercancel", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      inputMode: "pointer",
+      panning: { velocityDisabled: true },
+    });
+    const { instance } = renderPropsValues;
+
+    dispatchPointer(wrapper, "pointerdown", {
+      identifier: 1,
+      clientX: 300,
+      clientY: 300,
+    });
+    dispatchPointer(wrapper, "pointermove", {
+      identifier: 1,
+      clientX: 250,
+      clientY: 300,
+    });
+    dispatchPointer(wrapper, "pointercancel", {
+      identifier: 1,
+      clientX: 250,
+      clientY: 300,
+    });
+
+    expect(instance.isPanning).toBe(false);
+    expect(instance.activeTouches).toHaveLength(0);
+
+    const { positionX } = instance.transformState;
+    dispatchPointer(wrapper, "pointermove", {
+      identifier: 1,
+      clientX: 100,
+      clientY: 300,
+    });
+    expect(instance.transformState.positionX).toBe(positionX);
+  });
+  test("it stops the mouse panning when the activation key is released", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      inputMode: "pointer",
+      panning: { velocityDisabled: true, activationKeys: ["Shift"] },
+    });
+    const { instance } = renderPropsValues;
+    const pointer = { identifier: 1, clientX: 300, clientY: 300 };
+
+    fireEvent.keyDown(window, { key: "Shift" });
+    dispatchPointer(wrapper, "pointerdown", pointer, "mouse");
+    dispatchPointer(
+      wrapper,
+      "pointermove",
+      { ...pointer, clientX: 250 },
+      "mouse",
+    );
+    expect(instance.transformState.positionX).toBe(-50);
+
+    fireEvent.keyUp(window, { key: "Shift" });
+    dispatchPointer(
+      wrapper,
+      "pointermove",
+      { ...pointer, clientX: 200 },
+      "mouse",
+    );
+    expect(instance.transformState.positionX).toBe(-50);
+  });
+  test("it captures the pointer until it's released", () => {
+    const { wrapper } = renderExample({ inputMode: "pointer" });
+    const { captured, release } = mockPointerCapture(wrapper);
+
+    dispatchPointer(wrapper, "pointerdown", {
+      identifier: 3,
+      clientX: 300,
+      clientY: 300,
+    });
+    expect(captured.has(3)).toBe(true);
+
+    dispatchPointer(wrapper, "pointerup", {
+      identifier: 3,
+      clientX: 300,
+      clientY: 300,
+    });
+    expect(release).toHaveBeenCalledWith(3);
+    expect(captured.size).toBe(0);
+  });
+  test("it restores the wrapper touch-action", () => {
+    // jsdom drops the touch-action declarations, so the calls are checked
+    const setProperty = jest.spyOn(
+      CSSStyleDeclaration.prototype,
+      "setProperty",
+    );
+    const removeProperty = jest.spyOn(
+      CSSStyleDeclaration.prototype,
+      "removeProperty",
+    );
+    const getTouchActionCalls = (spy: jest.SpyInstance) =>
+      spy.mock.calls.filter(([property]) => property === "touch-action");
+
+    const { renderPropsValues, unmount } = renderExample({
+      inputMode: "pointer",
+    });
+    const { instance } = renderPropsValues;
+
+    expect(getTouchActionCalls(setProperty)).toEqual([
+      ["touch-action", "none"],
+    ]);
+
+    act(() => {
+      instance.update({ ...instance.props, inputMode: "legacy" });
+    });
+    expect(getTouchActionCalls(removeProperty)).toHaveLength(1);
+
+    act(() => {
+      instance.update({ ...instance.props, inputMode: "pointer" });
+    });
+    expect(getTouchActionCalls(setProperty)).toHaveLength(2);
+
+    unmount();
+    expect(getTouchActionCalls(removeProperty)).toHaveLength(2);
+
+    setProperty.mockRestore();
+    removeProperty.mockRestore();
+  });
+  test("it pans with the mouse after switching back to the legacy events", () => {
+    const { wrapper, renderPropsValues } = renderExample({
+      inputMode: "pointer",
+      panning: { velocityDisabled: true },
+    });
+    const { instance } = renderPropsValues;
+
+    act(() => {
+      instance.update({ ...instance.props, inputMode: "legacy" });
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 250, y: 200 });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.positionX).toBe(-50);
+    expect(instance.transformState.positionY).toBe(-100);
+  });
+});
@@ -1,3 +1,6 @@
+import { act } from "@testing-library/react";
+
+import { flushAnimations, simulatePan } from "../../src/testing";
 import { renderExample } from "../shared/render.shared";
 
 describe("Library components", () => {
@@ -8,4 +11,59 @@ describe("Library components", () => {
       expect(wrapper).toBeDefined();
     });
   });
+  describe("When viewport insets are set", () => {
+    const viewportInsets = { top: 50, left: 100 };
+
+    test("it centers the content in the visible area", () => {
+      const { renderPropsValues } = renderExample({
+        viewportInsets,
+        minScale: 0.1,
+      });
+      const { instance, centerView } = renderPropsValues;
+
+      act(() => {
+        centerView(0.4, 0);
+        flushAnimations();
+      });
+
+      expect(instance.transformState.positionX).toBe(100);
+      expect(instance.transformState.positionY).toBe(50 + (450 - 400) / 2);
+    });
+    test("it limits the content to the visible area", () => {
+      const { wrapper, renderPropsValues } = renderExample({
+        viewportInsets,
+        panning: { velocityDisabled: true },
+      });
+      const { transformState } = renderPropsValues.instance;
+
+      act(() => {
+        simulatePan(wrapper, { x: 100, y: 100 }, { x: 400, y: 400 });
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(100);
+      expect(transformState.positionY).toBe(50);
+
+      act(() => {
+        simulatePan(wrapper, { x: 400, y: 400 }, { x: -400, y: -400 });
+        flushAnimations();
+      });
+
+      expect(transformState.positionX).toBe(-500);
+      expect(transformState.positionY).toBe(-500);
+    });
+    test("it updates the bounds when the insets change", () => {
+      const { renderPropsValues, rerender } = renderExample();
+      const { instance } = renderPropsValues;
+
+      rerender({ viewportInsets });
+
+      expect(instance.bounds).toEqual({
+        minPositionX: -500,
+        maxPositionX: 100,
+        minPositionY: -500,
+        maxPositionY: 50,
+      });
+    });
+  });
 });
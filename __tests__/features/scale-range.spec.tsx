@@ -0,0 +1,73 @@
+import React from "react";
+import { act, screen } from "@testing-library/react";
+
+import { ScaleRange, useScaleThreshold } from "../../src";
+import { renderExample } from "../shared/render.shared";
+
+const renderScaleThreshold = (thresholds: number[]) => {
+  const values: (number | null)[] = [];
+
+  const Probe = () => {
+    values.push(useScaleThreshold(thresholds));
+    return null;
+  };
+
+  const { renderPropsValues } = renderExample(
+    { minScale: 0.1 },
+    <>
+      <Probe />
+      <ScaleRange min={2} max={8}>
+        <div data-testid="details" />
+      </ScaleRange>
+    </>,
+  );
+
+  return { values, instance: renderPropsValues.instance };
+};
+
+describe("Scale range", () => {
+  test("it re-renders only when the scale crosses a threshold", () => {
+    const { values, instance } = renderScaleThreshold([1, 2, 4]);
+    const renders = values.length;
+
+    expect(values[renders - 1]).toBe(1);
+
+    act(() => {
+      instance.setTransformState(1.2, 0, 0);
+      instance.setTransformState(1.5, 0, 0);
+      instance.setTransformState(1.9, 0, 0);
+    });
+    expect(values).toHaveLength(renders);
+
+    act(() => {
+      instance.setTransformState(2.5, 0, 0);
+    });
+    expect(values).toHaveLength(renders + 1);
+    expect(values[renders]).toBe(2);
+
+    act(() => {
+      instance.setTransformState(0.5, 0, 0);
+    });
+    expect(values[values.length - 1]).toBeNull();
+  });
+  test("it renders the children within the scale range", () => {
+    const { instance } = renderScaleThreshold([]);
+
+    expect(screen.queryByTestId("details")).toBeNull();
+
+    act(() => {
+      instance.setTransformState(2, 0, 0);
+    });
+    expect(screen.getByTestId("details")).toBeTruthy();
+
+    act(() => {
+      instance.setTransformState(7.9, 0, 0);
+    });
+    expect(screen.getByTestId("details")).toBeTruthy();
+
+    act(() => {
+      instance.setTransformState(8, 0, 0);
+    });
+    expect(screen.queryByTestId("details")).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import React from "react";
+import { act, fireEvent, screen, waitFor } from "@testing-library/react";
+
+import { parseIiifInfo, TiledImage, TiledImageSourceType } from "../../src";
+import { getMinLevel } from "../../src/components/tiled-image/tiled-image.utils";
+import { renderExample } from "../shared/render.shared";
+import { mockImageServer } from "../utils/image-server.utils";
+import iiif2Info from "../fixtures/iiif-2-info.json";
+import iiif3Info from "../fixtures/iiif-3-info.json";
+
+const tiledSource: TiledImageSourceType = {
+  width: 2048,
+  height: 2048,
+  tileSize: 256,
+  url: (level, x, y) => `/tiles/${level}/${x}_${y}.jpg`,
+};
+
+const dziDescriptor = `<?xml version="1.0" encoding="UTF-8"?>
+<Image xmlns="http://schemas.microsoft.com/deepzoom/2008" Format="png" Overlap="1" TileSize="254">
+  <Size Width="1000" Height="500"/>
+</Image>`;
+
+const renderTiledImage = (
+  source: TiledImageSourceType | string,
+  width?: number,
+) => {
+  const { renderPropsValues } = renderExample(
+    {},
+    <TiledImage source={source} width={width} alt="Tile" />,
+  );
+
+  const getTileElement = (src: string) =>
+    screen.getAllByRole("img").find((img) => img.getAttribute("src") === src)!;
+  const getTiles = () =>
+    screen.queryAllByRole("img").map((img) => img.getAttribute("src"));
+
+  return { instance: renderPropsValues.instance, getTiles, getTileElement };
+};
+
+describe("TiledImage", () => {
+  let server: ReturnType<typeof mockImageServer> | null = null;
+
+  afterEach(() => {
+    server?.restore();
+    server = null;
+  });
+
+  test("it renders the visible tiles of the current level", () => {
+    const { getTiles } = renderTiledImage(tiledSource, 1000);
+
+    expect(getTiles()).toEqual([
+      "/tiles/8/0_0.jpg",
+      "/tiles/10/0_0.jpg",
+      "/tiles/10/1_0.jpg",
+      "/tiles/10/0_1.jpg",
+      "/tiles/10/1_1.jpg",
+    ]);
+  });
+  test("it keeps the loaded lower level tiles as the placeholders", () => {
+    const { instance, getTiles, getTileElement } = renderTiledImage(
+      tiledSource,
+      1000,
+    );
+
+    fireEvent.load(getTileElement("/tiles/10/0_0.jpg"));
+
+    act(() => {
+      instance.setTransformState(4, -800, -800);
+    });
+
+    expect(getTiles()).toEqual([
+      "/tiles/8/0_0.jpg",
+      "/tiles/10/0_0.jpg",
+      "/tiles/11/1_1.jpg",
+      "/tiles/11/2_1.jpg",
+      "/tiles/11/1_2.jpg",
+      "/tiles/11/2_2.jpg",
+    ]);
+  });
+  test("it picks the level for the device pixel ratio", () => {
+    const { devicePixelRatio } = window;
+    window.devicePixelRatio = 2;
+
+    try {
+      const { getTiles } = renderTiledImage(tiledSource, 1000);
+
+      expect(getTiles()).toContain("/tiles/11/0_0.jpg");
+      expect(getTiles()).not.toContain("/tiles/10/0_0.jpg");
+    } finally {
+      window.devicePixelRatio = devicePixelRatio;
+    }
+  });
+  test("it picks the level for the larger axis scale", () => {
+    const { instance, getTiles } = renderTiledImage(tiledSource, 1000);
+
+    act(() => {
+      instance.setTransformState(1, 0, 0, 0, 2, 1);
+    });
+
+    expect(getTiles()).toContain("/tiles/11/0_0.jpg");
+  });
+  test("it loads the Deep Zoom descriptor", async () => {
+    server = mockImageServer({
+      "https://example.com/images/map.dzi": dziDescriptor,
+    });
+
+    const { getTiles, getTileElement } = renderTiledImage(
+      "https://example.com/images/map.dzi",
+    );
+
+    await waitFor(() => expect(getTiles()).toHaveLength(5));
+
+    expect(server.requests).toEqual(["https://example.com/images/map.dzi"]);
+    expect(getTiles()).toContain(
+      "https://example.com/images/map_files/10/1_0.png",
+    );
+
+    const tile = getTileElement(
+      "https://example.com/images/map_files/10/1_0.png",
+    );
+    expect(tile.style.left).toBe("253px");
+    expect(tile.style.width).toBe("256px");
+  });
+  test("it loads the IIIF Image API 2 tiles", async () => {
+    server = mockImageServer({
+      "https://iiif.example.org/iiif/2/painting/info.json": iiif2Info,
+    });
+
+    const { getTiles } = renderTiledImage(
+      "https://iiif.example.org/iiif/2/painting/info.json",
+      1000,
+    );
+
+    await waitFor(() => expect(getTiles()).toHaveLength(5));
+
+    const baseUrl = "https://iiif.example.org/iiif/2/painting";
+    expect(getTiles()).toEqual([
+      `${baseUrl}/full/375,/0/default.jpg`,
+      `${baseUrl}/0,0,2048,2048/512,/0/default.jpg`,
+      `${baseUrl}/2048,0,2048,2048/512,/0/default.jpg`,
+      `${baseUrl}/0,2048,2048,1952/512,/0/default.jpg`,
+      `${baseUrl}/2048,2048,2048,1952/512,/0/default.jpg`,
+    ]);
+  });
+  test("it maps the IIIF Image API 3 scale factors to the levels", () => {
+    const source = parseIiifInfo(iiif3Info);
+    const baseUrl = "https://iiif.example.org/iiif/3/manuscript";
+
+    expect(getMinLevel(source)).toBe(8);
+    expect(source.url(8, 0, 0)).toBe(`${baseUrl}/full/250,188/0/default.webp`);
+    expect(source.url(12, 15, 11)).toBe(
+      `${baseUrl}/3840,2816,160,184/160,184/0/default.webp`,
+    );
+    expect(source.url(11, 1, 0)).toBe(
+      `${baseUrl}/512,0,512,512/256,256/0/default.webp`,
+    );
+  });
+  test("it logs the failed descriptor request", async () => {
+    server = mockImageServer({});
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const { getTiles } = renderTiledImage(
+      "https://iiif.example.org/iiif/2/missing/info.json",
+    );
+
+    await waitFor(() => expect(error).toHaveBeenCalled());
+    expect(getTiles()).toHaveLength(0);
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,190 @@
+import React from "react";
+import { act } from "@testing-library/react";
+
+import {
+  ReactZoomPanPinchProps,
+  TransformUrlSyncOptions,
+  useTransformUrlSync,
+} from "../../src";
+import {
+  advanceTime,
+  flushAnimations,
+  runAnimationFrame,
+  simulatePan,
+  simulateWheel,
+} from "../../src/testing";
+import { parseUrlViewport } from "../../src/utils";
+import { renderExample } from "../shared/render.shared";
+
+const renderUrlSync = (
+  options: TransformUrlSyncOptions = {},
+  props: ReactZoomPanPinchProps = {},
+) => {
+  const UrlSync = () => {
+    useTransformUrlSync(options);
+    return null;
+  };
+
+  return renderExample(props, <UrlSync />);
+};
+
+const setUrl = (url: string) => {
+  window.history.replaceState(null, "", url);
+};
+
+/**
+ * Gives the elements their layout size before the library initializes,
+ * by their test ids
+ */
+const mockInitialLayout = (sizes: Record<string, [number, number]>) => {
+  const prototype = HTMLElement.prototype;
+  const descriptors = {
+    offsetWidth: Object.getOwnPropertyDescriptor(prototype, "offsetWidth"),
+    offsetHeight: Object.getOwnPropertyDescriptor(prototype, "offsetHeight"),
+  };
+
+  Object.defineProperties(prototype, {
+    offsetWidth: {
+      configurable: true,
+      get(this: HTMLElement) {
+        return sizes[this.dataset.testid || ""]?.[0] ?? 0;
+      },
+    },
+    offsetHeight: {
+      configurable: true,
+      get(this: HTMLElement) {
+        return sizes[this.dataset.testid || ""]?.[1] ?? 0;
+      },
+    },
+  });
+
+  return () => {
+    Object.defineProperties(prototype, descriptors as PropertyDescriptorMap);
+  };
+};
+
+describe("Url sync", () => {
+  beforeEach(() => {
+    setUrl("/");
+  });
+  afterEach(() => {
+    setUrl("/");
+  });
+
+  test("it writes the viewport to the hash when the animation finishes", () => {
+    const { renderPropsValues } = renderUrlSync();
+    const { setTransform } = renderPropsValues;
+    // The layout of the mounted components settles the initial view
+    const initialHash = "#view=250,250,1";
+    expect(window.location.hash).toBe(initialHash);
+
+    act(() => {
+      setTransform(-200, -100, 2, 300);
+      runAnimationFrame();
+      advanceTime(1000);
+    });
+    expect(window.location.hash).toBe(initialHash);
+
+    act(() => {
+      flushAnimations();
+    });
+    // The visible center of the 500x500 viewport and the scale
+    expect(window.location.hash).toBe("#view=225,175,2");
+    expect(window.location.search).toBe("");
+  });
+  test("it writes the viewport when the panning stops", () => {
+    const { wrapper, renderPropsValues } = renderUrlSync(
+      {},
+      { panning: { velocityDisabled: true } },
+    );
+    const { instance } = renderPropsValues;
+
+    // Changes out of the gestures and animations don't settle
+    act(() => {
+      instance.setTransformState(1, -50, -50);
+      advanceTime(1000);
+    });
+    expect(window.location.hash).toBe("#view=250,250,1");
+
+    act(() => {
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 250, y: 250 });
+      flushAnimations();
+    });
+    expect(window.location.hash).toBe("#view=350,350,1");
+  });
+  test("it writes the viewport when the wheel panning stops", async () => {
+    const { wrapper } = renderUrlSync(
+      {},
+      { wheel: { wheelDisabled: true }, panning: { wheelPanning: true } },
+    );
+
+    act(() => {
+      simulateWheel(wrapper, { deltaX: 100, deltaY: 100 });
+      simulateWheel(wrapper, { deltaX: 100, deltaY: 100 });
+    });
+    expect(window.location.hash).toBe("#view=250,250,1");
+
+    // The wheel has no end event, the panning stops when it's idle
+    await act(async () => {
+      await new Promise((resolve) => {
+        setTimeout(resolve, 200);
+      });
+    });
+    act(() => {
+      flushAnimations();
+    });
+    expect(window.location.hash).toBe("#view=450,450,1");
+  });
+  test("it writes the viewport to the query", () => {
+    setUrl("/?page=1#section");
+    const { renderPropsValues } = renderUrlSync({
+      mode: "query",
+      param: "v",
+    });
+    const { setTransform } = renderPropsValues;
+
+    act(() => {
+      setTransform(-200, -100, 2, 0);
+    });
+
+    expect(window.location.search).toBe("?page=1&v=225,175,2");
+    expect(window.location.hash).toBe("#section");
+  });
+  test("it restores the stored center and scale on init", () => {
+    setUrl("/#view=300,200,2");
+    const restoreLayout = mockInitialLayout({
+      wrapper: [800, 400],
+      content: [1000, 1000],
+    });
+
+    const { renderPropsValues } = renderUrlSync();
+    restoreLayout();
+    const { instance } = renderPropsValues;
+
+    // The stored point is in the center of the 800x400 viewport
+    expect(instance.transformState.scale).toBe(2);
+    expect(instance.transformState.positionX).toBe(400 - 300 * 2);
+    expect(instance.transformState.positionY).toBe(200 - 200 * 2);
+  });
+  test.each(["#view=abc,1,2", "#view=10,10,0", "#view=10", "#other=1,1,2"])(
+    "it ignores the malformed or missing param %s",
+    (hash) => {
+      setUrl(`/${hash}`);
+      const { renderPropsValues } = renderUrlSync();
+      const { instance } = renderPropsValues;
+
+      expect(instance.transformState.scale).toBe(1);
+      expect(instance.transformState.positionX).toBe(0);
+      expect(instance.transformState.positionY).toBe(0);
+    },
+  );
+  test("it parses the stored viewport", () => {
+    expect(parseUrlViewport("10.5,-20,1.5")).toEqual({
+      x: 10.5,
+      y: -20,
+      scale: 1.5,
+    });
+    expect(parseUrlViewport("")).toBeNull();
+    expect(parseUrlViewport("1,2,-1")).toBeNull();
+  });
+});
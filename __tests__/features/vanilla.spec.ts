@@ -0,0 +1,161 @@
+import { act } from "@testing-library/react";
+
+import { createZoomPanPinch, ZoomPanPinchOptions } from "../../src/vanilla";
+import {
+  flushAnimations,
+  mockContentSize,
+  mockElementSize,
+  simulatePan,
+  simulateWheel,
+} from "../../src/testing";
+
+const createElements = () => {
+  const wrapper = document.createElement("div");
+  const content = document.createElement("div");
+
+  wrapper.appendChild(content);
+  document.body.appendChild(wrapper);
+  mockElementSize(wrapper, { width: 500, height: 500 });
+  mockContentSize(content, { width: 1000, height: 1000 });
+
+  return { wrapper, content };
+};
+
+const renderVanilla = (options?: ZoomPanPinchOptions) => {
+  const elements = createElements();
+  const zoomPanPinch = createZoomPanPinch(
+    elements.wrapper,
+    elements.content,
+    options,
+  );
+
+  return { ...elements, zoomPanPinch };
+};
+
+describe("Vanilla", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  test("it moves the content with the handlers", () => {
+    const { content, zoomPanPinch } = renderVanilla();
+
+    act(() => {
+      zoomPanPinch.setTransform(-100, -50, 2, 0);
+    });
+
+    expect(zoomPanPinch.getState()).toMatchObject({
+      scale: 2,
+      positionX: -100,
+      positionY: -50,
+    });
+    expect(content.style.transform).toContain("translate(-100px, -50px)");
+    expect(content.style.transform).toContain("scale(2)");
+
+    act(() => {
+      zoomPanPinch.resetTransform(0);
+    });
+    expect(zoomPanPinch.getState()).toMatchObject({
+      scale: 1,
+      positionX: 0,
+      positionY: 0,
+    });
+  });
+  test("it pans the content with the gestures", () => {
+    const { wrapper, zoomPanPinch } = renderVanilla({
+      panning: { velocityDisabled: true },
+    });
+
+    act(() => {
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 250, y: 200 });
+      flushAnimations();
+    });
+
+    expect(zoomPanPinch.getState()).toMatchObject({
+      positionX: -50,
+      positionY: -100,
+    });
+  });
+  test("it notifies the subscribers until they unsubscribe", () => {
+    const { zoomPanPinch } = renderVanilla();
+    const callback = jest.fn();
+
+    const unsubscribe = zoomPanPinch.subscribe(callback);
+
+    act(() => {
+      zoomPanPinch.setTransform(-100, 0, 1, 0);
+    });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0].state.positionX).toBe(-100);
+
+    unsubscribe();
+
+    act(() => {
+      zoomPanPinch.setTransform(-200, 0, 1, 0);
+    });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+  test("it removes the listeners on destroy", () => {
+    const { wrapper, zoomPanPinch } = renderVanilla();
+    const callback = jest.fn();
+
+    zoomPanPinch.subscribe(callback);
+    zoomPanPinch.destroy();
+
+    act(() => {
+      simulatePan(wrapper, { x: 300, y: 300 }, { x: 250, y: 200 });
+      simulateWheel(wrapper, { deltaY: -100 });
+      flushAnimations();
+    });
+
+    expect(zoomPanPinch.getState()).toMatchObject({
+      scale: 1,
+      positionX: 0,
+      positionY: 0,
+    });
+    expect(callback).not.toHaveBeenCalled();
+  });
+  test("it restores the inline styles and the tabindex on destroy", () => {
+    const { wrapper, content } = createElements();
+    wrapper.style.overflow = "auto";
+    wrapper.style.position = "absolute";
+    content.style.transform = "rotate(1deg)";
+
+    const zoomPanPinch = createZoomPanPinch(wrapper, content, {
+      keyboard: { disabled: false },
+    });
+
+    expect(wrapper.style.overflow).toBe("hidden");
+    expect(wrapper.getAttribute("tabindex")).toBe("0");
+
+    zoomPanPinch.destroy();
+
+    expect(wrapper.style.overflow).toBe("auto");
+    expect(wrapper.style.position).toBe("absolute");
+    expect(wrapper.style.userSelect).toBe("");
+    expect(content.style.transform).toBe("rotate(1deg)");
+    expect(content.style.transformOrigin).toBe("");
+    expect(wrapper.hasAttribute("tabindex")).toBe(false);
+    expect(wrapper.classList).toHaveLength(0);
+  });
+  test("it keeps the original tabindex on destroy", () => {
+    const { wrapper, content } = createElements();
+    wrapper.setAttribute("tabindex", "-1");
+
+    const zoomPanPinch = createZoomPanPinch(wrapper, content, {
+      keyboard: { disabled: false },
+    });
+    expect(wrapper.getAttribute("tabindex")).toBe("-1");
+
+    zoomPanPinch.destroy();
+    expect(wrapper.getAttribute("tabindex")).toBe("-1");
+  });
+  test("it settles the pending handler on destroy", async () => {
+    const { zoomPanPinch } = renderVanilla();
+
+    const result = zoomPanPinch.setTransform(-100, -100, 2, 300);
+    zoomPanPinch.destroy();
+
+    await expect(result).resolves.toMatchObject({ completed: false });
+  });
+});
@@ -0,0 +1,68 @@
+import React from "react";
+import { act } from "@testing-library/react";
+
+import { RectType, useVisibleRect } from "../../src";
+import { advanceTime } from "../../src/testing";
+import { renderExample } from "../shared/render.shared";
+
+const renderVisibleRect = (throttle: number) => {
+  const rects: (RectType | null)[] = [];
+
+  const VisibleRect = () => {
+    rects.push(useVisibleRect({ throttle }));
+    return null;
+  };
+
+  const { renderPropsValues } = renderExample({}, <VisibleRect />);
+
+  return { rects, instance: renderPropsValues.instance };
+};
+
+describe("Visible rect", () => {
+  test("it returns the visible part of the content", () => {
+    const { renderPropsValues } = renderExample({
+      viewportInsets: { left: 100 },
+    });
+    const { instance } = renderPropsValues;
+
+    act(() => {
+      instance.setTransformState(2, -200, -100);
+    });
+
+    expect(instance.getVisibleRect()).toEqual({
+      x: 150,
+      y: 50,
+      width: 200,
+      height: 250,
+    });
+    expect(
+      instance.isRectVisible({ x: 300, y: 250, width: 100, height: 100 }),
+    ).toBe(true);
+    expect(
+      instance.isRectVisible({ x: 0, y: 0, width: 100, height: 100 }),
+    ).toBe(false);
+  });
+  test("it throttles the visible rect updates", () => {
+    jest.useFakeTimers("legacy");
+    const { rects, instance } = renderVisibleRect(100);
+
+    act(() => {
+      advanceTime(100);
+      instance.setTransformState(2, -200, -200);
+    });
+    expect(rects[rects.length - 1]).toMatchObject({ x: 100, y: 100 });
+
+    act(() => {
+      instance.setTransformState(2, -400, -400);
+    });
+    expect(rects[rects.length - 1]).toMatchObject({ x: 100, y: 100 });
+
+    act(() => {
+      advanceTime(100);
+      jest.runOnlyPendingTimers();
+    });
+    expect(rects[rects.length - 1]).toMatchObject({ x: 200, y: 200 });
+
+    jest.useRealTimers();
+  });
+});
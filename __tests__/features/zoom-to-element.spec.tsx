@@ -0,0 +1,223 @@
+import { act } from "@testing-library/react";
+
+import { ReactZoomPanPinchContext } from "../../src";
+import { flushAnimations } from "../../src/testing";
+import { renderExample } from "../shared/render.shared";
+
+// Node placed in the content coordinates, its client rect follows the transformation
+const createNode = (
+  content: HTMLElement,
+  instance: ReactZoomPanPinchContext,
+  {
+    x,
+    y,
+    width,
+    height,
+  }: { x: number; y: number; width: number; height: number },
+): HTMLElement => {
+  const node = document.createElement("div");
+  content.appendChild(node);
+
+  Object.defineProperties(node, {
+    offsetWidth: { configurable: true, get: () => width },
+    offsetHeight: { configurable: true, get: () => height },
+    getBoundingClientRect: {
+      configurable: true,
+      value: () => {
+        // Bounding box of the transformed node, like in the browser
+        const corners = [
+          { x, y },
+          { x: x + width, y },
+          { x, y: y + height },
+          { x: x + width, y: y + height },
+        ].map((corner) => instance.contentToScreen(corner));
+        const xs = corners.map((corner) => corner.x);
+        const ys = corners.map((corner) => corner.y);
+        const left = Math.min(...xs);
+        const top = Math.min(...ys);
+
+        return {
+          x: left,
+          y: top,
+          left,
+          top,
+          width: Math.max(...xs) - left,
+          height: Math.max(...ys) - top,
+        };
+      },
+    },
+  });
+  return node;
+};
+
+const expectInViewport = (
+  instance: ReactZoomPanPinchContext,
+  {
+    x,
+    y,
+    width,
+    height,
+  }: { x: number; y: number; width: number; height: number },
+) => {
+  [
+    { x, y },
+    { x: x + width, y },
+    { x, y: y + height },
+    { x: x + width, y: y + height },
+  ].forEach((corner) => {
+    const point = instance.contentToScreen(corner);
+    expect(point.x).toBeGreaterThanOrEqual(-0.001);
+    expect(point.x).toBeLessThanOrEqual(500.001);
+    expect(point.y).toBeGreaterThanOrEqual(-0.001);
+    expect(point.y).toBeLessThanOrEqual(500.001);
+  });
+};
+
+describe("Zoom to element", () => {
+  const nodeRect = { x: 200, y: 300, width: 100, height: 50 };
+
+  test("it fits the node into the padded viewport", () => {
+    const { content, renderPropsValues } = renderExample();
+    const { instance, zoomToElement } = renderPropsValues;
+    const node = createNode(content, instance, nodeRect);
+
+    act(() => {
+      zoomToElement(node, { padding: 50 });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(4);
+    expect(instance.transformState.positionX).toBe(-750);
+    expect(instance.transformState.positionY).toBe(-1050);
+  });
+  test("it aligns the node to the top-left corner with the fit mode", () => {
+    const { content, renderPropsValues } = renderExample();
+    const { instance, zoomToElement } = renderPropsValues;
+    const node = createNode(content, instance, nodeRect);
+
+    act(() => {
+      zoomToElement(node, {
+        padding: "10%",
+        fit: "height",
+        align: "top-left",
+        maxScale: 6,
+      });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(6);
+    expect(instance.transformState.positionX).toBe(-1150);
+    expect(instance.transformState.positionY).toBe(-1750);
+  });
+  test("it keeps the transformation when the node is visible", () => {
+    const { content, renderPropsValues } = renderExample();
+    const { instance, zoomToElement } = renderPropsValues;
+    const node = createNode(content, instance, nodeRect);
+
+    act(() => {
+      zoomToElement(node, { align: "keep-current-if-visible" });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(1);
+    expect(instance.transformState.positionX).toBe(0);
+    expect(instance.transformState.positionY).toBe(0);
+  });
+  test("it scrolls the node minimally into view", () => {
+    const { content, renderPropsValues } = renderExample();
+    const { instance, zoomToElement } = renderPropsValues;
+    const node = createNode(content, instance, { ...nodeRect, x: 600 });
+
+    act(() => {
+      zoomToElement(node, { nearest: true });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(1);
+    expect(instance.transformState.positionX).toBe(-200);
+    expect(instance.transformState.positionY).toBe(0);
+  });
+  test("it frames the content rectangle", () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, zoomToRect } = renderPropsValues;
+
+    act(() => {
+      zoomToRect({ x: 100, y: 100, width: 200, height: 100 });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(2.5);
+    expect(instance.transformState.positionX).toBe(-250);
+    expect(instance.transformState.positionY).toBe(-125);
+  });
+  test("it frames the union of the elements", () => {
+    const { content, renderPropsValues } = renderExample();
+    const { instance, zoomToElements } = renderPropsValues;
+    const nodes = [
+      createNode(content, instance, nodeRect),
+      createNode(content, instance, {
+        x: 550,
+        y: 450,
+        width: 150,
+        height: 100,
+      }),
+    ];
+
+    act(() => {
+      zoomToElements(nodes);
+      flushAnimations();
+    });
+
+    expect(instance.transformState.scale).toBe(1);
+    expect(instance.transformState.positionX).toBe(-200);
+    expect(instance.transformState.positionY).toBe(-175);
+  });
+  test("it frames the rectangle on the rotated content", () => {
+    const { renderPropsValues } = renderExample();
+    const { instance, zoomToRect } = renderPropsValues;
+    const rect = { x: 100, y: 200, width: 100, height: 50 };
+
+    act(() => {
+      instance.setTransformState(1, 500, 0, 90);
+      zoomToRect(rect);
+      flushAnimations();
+    });
+
+    // Rotated by 90 degrees the rect is 50 wide and 100 high
+    expect(instance.transformState.scale).toBe(5);
+    expect(instance.transformState.rotation).toBe(90);
+    expectInViewport(instance, rect);
+
+    const center = instance.contentToScreen({ x: 150, y: 225 });
+    expect(center.x).toBeCloseTo(250);
+    expect(center.y).toBeCloseTo(250);
+  });
+  test("it frames the elements on the rotated content", () => {
+    const { content, renderPropsValues } = renderExample();
+    const { instance, zoomToElements, zoomToElement } = renderPropsValues;
+    const firstRect = { x: 100, y: 100, width: 100, height: 50 };
+    const secondRect = { x: 300, y: 200, width: 50, height: 50 };
+    const first = createNode(content, instance, firstRect);
+    const second = createNode(content, instance, secondRect);
+
+    act(() => {
+      instance.setTransformState(1, 600, 0, 45);
+      zoomToElement(first, { padding: 20 });
+      flushAnimations();
+    });
+
+    expect(instance.transformState.rotation).toBe(45);
+    expectInViewport(instance, firstRect);
+    const center = instance.contentToScreen({ x: 150, y: 125 });
+    expect(center.x).toBeCloseTo(250);
+    expect(center.y).toBeCloseTo(250);
+
+    act(() => {
+      zoomToElements([first, second]);
+      flushAnimations();
+    });
+
+    expectInViewport(instance, firstRect);
+    expectInViewport(instance, secondRect);
+  });
+});
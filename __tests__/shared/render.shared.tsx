@@ -1,24 +1,36 @@
 import React from "react";
-import { render, screen } from "@testing-library/react";
+import { act, render, screen } from "@testing-library/react";
 
-import { ReactZoomPanPinchProps } from "../../src";
+import { ReactZoomPanPinchContentRef, ReactZoomPanPinchProps } from "../../src";
+import { mockContentSize, mockElementSize } from "../../src/testing";
 import { Example } from "../utils/example";
 
-export const renderExample = (props?: ReactZoomPanPinchProps) => {
+/**
+ * Renders the 500x500 wrapper with the 1000x1000 content.
+ * The children replace the default content, rerender keeps them.
+ */
+export const renderExample = (
+  props?: ReactZoomPanPinchProps,
+  children?: React.ReactNode,
+) => {
   let renders = 0;
-  let renderPropsValues = {};
+  let renderPropsValues = {} as ReactZoomPanPinchContentRef;
 
-  render(
+  const renderTree = (exampleProps?: ReactZoomPanPinchProps) => (
     <Example
-      {...props}
+      props={exampleProps}
       onRender={() => {
         renders += 1;
       }}
       onRenderProps={(ref) => {
         renderPropsValues = ref;
       }}
-    />,
+    >
+      {children}
+    </Example>
   );
+
+  const { unmount, rerender } = render(renderTree(props));
   // controls buttons
   const zoomInBtn = screen.getByTestId("zoom-in");
   const zoomOutBtn = screen.getByTestId("zoom-out");
@@ -28,6 +40,11 @@ export const renderExample = (props?: ReactZoomPanPinchProps) => {
   const content = screen.getByTestId("content");
   const wrapper = screen.getByTestId("wrapper");
 
+  act(() => {
+    mockElementSize(wrapper, { width: 500, height: 500 });
+    mockContentSize(content, { width: 1000, height: 1000 });
+  });
+
   return {
     renders,
     renderPropsValues,
@@ -37,5 +54,8 @@ export const renderExample = (props?: ReactZoomPanPinchProps) => {
     center,
     content,
     wrapper,
+    unmount,
+    rerender: (newProps?: ReactZoomPanPinchProps) =>
+      rerender(renderTree(newProps)),
   };
 };
@@ -0,0 +1,12 @@
+import { setupTestingMocks } from "../../src/testing";
+
+let cleanupTestingMocks: (() => void) | null = null;
+
+beforeEach(() => {
+  cleanupTestingMocks = setupTestingMocks();
+});
+
+afterEach(() => {
+  cleanupTestingMocks?.();
+  cleanupTestingMocks = null;
+});
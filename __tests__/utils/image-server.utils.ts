@@ -0,0 +1,27 @@
+/**
+ * Replaces fetch with the stub serving the descriptors by their urls.
+ * Objects are served as json, unknown urls respond with 404.
+ */
+export const mockImageServer = (files: Record<string, string | object>) => {
+  const originalFetch = window.fetch;
+  const requests: string[] = [];
+
+  window.fetch = jest.fn((input: RequestInfo | URL) => {
+    const url = String(input);
+    const file = files[url];
+    requests.push(url);
+
+    return Promise.resolve({
+      ok: file !== undefined,
+      status: file !== undefined ? 200 : 404,
+      text: () =>
+        Promise.resolve(typeof file === "string" ? file : JSON.stringify(file)),
+    } as Response);
+  });
+
+  const restore = () => {
+    window.fetch = originalFetch;
+  };
+
+  return { requests, restore };
+};
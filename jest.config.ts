@@ -40,6 +40,9 @@ const config: Config.InitialOptions = {
     "jest-watch-typeahead/filename",
     "jest-watch-typeahead/testname",
   ],
-  setupFilesAfterEnv: ["jest-extended/all"],
+  setupFilesAfterEnv: [
+    "jest-extended/all",
+    "<rootDir>/__tests__/shared/setup.shared.ts",
+  ],
 };
 export default config;
@@ -6,18 +6,24 @@ import postcss from "rollup-plugin-postcss";
 import dts from "rollup-plugin-dts";
 import pkg from "./package.json";
 
-export default [
+const entries = [
+  { input: pkg.source, name: "index" },
+  { input: "src/vanilla/index.ts", name: "vanilla" },
+  { input: "src/testing/index.ts", name: "testing" },
+];
+
+export default entries.flatMap(({ input, name }, index) => [
   {
-    input: pkg.source,
+    input,
     output: [
       {
-        file: pkg.main,
+        file: `dist/${name}.cjs.js`,
         format: "cjs",
         exports: "named",
         sourcemap: true,
       },
       {
-        file: pkg.module,
+        file: `dist/${name}.esm.js`,
         format: "es",
         exports: "named",
         sourcemap: true,
@@ -29,12 +35,13 @@ export default [
         babelHelpers: "bundled",
         exclude: "node_modules/**",
       }),
-      del({ targets: ["dist/*"] }),
+      // Clean the output only once, before the first bundle is written
+      index === 0 && del({ targets: ["dist/*"] }),
       typescript({ declaration: false }),
       postcss({
         modules: true,
       }),
-    ],
+    ].filter(Boolean),
     onwarn(error, warn) {
       if (error.code !== "CIRCULAR_DEPENDENCY") {
         warn(error);
@@ -43,8 +50,8 @@ export default [
     external: Object.keys(pkg.peerDependencies || {}),
   },
   {
-    input: pkg.source,
-    output: [{ file: pkg.types, format: "es" }],
+    input,
+    output: [{ file: `dist/${name}.d.ts`, format: "es" }],
     plugins: [
       external(),
       dts({
@@ -54,4 +61,4 @@ export default [
       }),
     ],
   },
-];
+]);
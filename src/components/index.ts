@@ -1,4 +1,17 @@
 export * from "./keep-scale/keep-scale";
 export * from "./mini-map/mini-map";
+export * from "./overlay/overlay";
+export * from "./scale-range/scale-range";
+export * from "./tiled-image/tiled-image";
+export {
+  parseDziDescriptor,
+  parseIiifInfo,
+  parseTiledImageDescriptor,
+} from "./tiled-image/tiled-image.utils";
+export type {
+  IiifInfoType,
+  IiifTilesType,
+  TiledImageSourceType,
+} from "./tiled-image/tiled-image.utils";
 export * from "./transform-component/transform-component";
 export * from "./transform-wrapper/transform-wrapper";
@@ -0,0 +1,140 @@
+/* eslint-disable react/require-default-props */
+import React, { useContext, useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+
+import { useTransformInit } from "hooks";
+import { mergeRefs } from "utils/ref.utils";
+import { ReactZoomPanPinchContext } from "models";
+import { contentToWrapper } from "core/coordinates/coordinates.utils";
+import { getViewportArea } from "core/viewport/viewport.utils";
+import { Context } from "../transform-wrapper/transform-wrapper";
+
+export type OverlayAnchorType =
+  | "top-left"
+  | "top-center"
+  | "top-right"
+  | "center-left"
+  | "center"
+  | "center-right"
+  | "bottom-left"
+  | "bottom-center"
+  | "bottom-right";
+
+export type OverlayProps = {
+  // Position in the content coordinates
+  x: number;
+  y: number;
+  // Point of the overlay placed at the position
+  anchor?: OverlayAnchorType;
+  // Hides the overlay when its position is outside of the viewport
+  hideOffscreen?: boolean;
+} & React.HTMLAttributes<HTMLDivElement>;
+
+const anchorOffsets: Record<OverlayAnchorType, [string, string]> = {
+  "top-left": ["0%", "0%"],
+  "top-center": ["-50%", "0%"],
+  "top-right": ["-100%", "0%"],
+  "center-left": ["0%", "-50%"],
+  center: ["-50%", "-50%"],
+  "center-right": ["-100%", "-50%"],
+  "bottom-left": ["0%", "-100%"],
+  "bottom-center": ["-50%", "-100%"],
+  "bottom-right": ["-100%", "-100%"],
+};
+
+const getOverlayPlacement = (
+  contextInstance: ReactZoomPanPinchContext,
+  x: number,
+  y: number,
+  anchor: OverlayAnchorType,
+  hideOffscreen: boolean,
+): Pick<React.CSSProperties, "transform" | "visibility"> => {
+  const { wrapperComponent, setup } = contextInstance;
+  const point = contentToWrapper(contextInstance, { x, y });
+  const [offsetX, offsetY] = anchorOffsets[anchor];
+
+  let visibility: React.CSSProperties["visibility"] = "visible";
+
+  if (hideOffscreen && wrapperComponent) {
+    const area = getViewportArea(wrapperComponent, setup.viewportInsets);
+    const isOffscreen =
+      point.x < area.left ||
+      point.y < area.top ||
+      point.x > area.left + area.width ||
+      point.y > area.top + area.height;
+
+    if (isOffscreen) visibility = "hidden";
+  }
+
+  return {
+    transform: `translate(${point.x}px, ${point.y}px) translate(${offsetX}, ${offsetY})`,
+    visibility,
+  };
+};
+
+/**
+ * Renders the children in the wrapper, above the content, at the content position.
+ * It is not scaled with the content and it's placed on every transformation
+ * without re-rendering.
+ */
+export const Overlay = React.forwardRef<HTMLDivElement, OverlayProps>(
+  (
+    {
+      x,
+      y,
+      anchor = "center",
+      hideOffscreen = false,
+      style,
+      children,
+      ...rest
+    },
+    ref,
+  ) => {
+    const localRef = useRef<HTMLDivElement>(null);
+    const instance = useContext(Context);
+    const [wrapper, setWrapper] = useState(instance.wrapperComponent);
+
+    useTransformInit(({ instance: ctx }) => {
+      setWrapper(ctx.wrapperComponent);
+    });
+
+    useEffect(() => {
+      const place = () => {
+        if (!localRef.current) return;
+
+        const placement = getOverlayPlacement(
+          instance,
+          x,
+          y,
+          anchor,
+          hideOffscreen,
+        );
+        localRef.current.style.transform = placement.transform as string;
+        localRef.current.style.visibility = placement.visibility as string;
+      };
+
+      place();
+      return instance.onChange(place);
+    }, [instance, wrapper, x, y, anchor, hideOffscreen]);
+
+    if (!wrapper) return null;
+
+    return createPortal(
+      <div
+        {...rest}
+        ref={mergeRefs([localRef, ref])}
+        style={{
+          position: "absolute",
+          top: 0,
+          left: 0,
+          zIndex: 1,
+          ...style,
+          ...getOverlayPlacement(instance, x, y, anchor, hideOffscreen),
+        }}
+      >
+        {children}
+      </div>,
+      wrapper,
+    );
+  },
+);
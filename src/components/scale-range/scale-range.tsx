@@ -0,0 +1,30 @@
+/* eslint-disable react/require-default-props */
+import React from "react";
+
+import { useScaleThreshold } from "hooks";
+
+export type ScaleRangeProps = {
+  children: React.ReactNode;
+  // Inclusive
+  min?: number;
+  // Exclusive, so the adjacent ranges don't overlap
+  max?: number;
+};
+
+/**
+ * Renders the children only within the scale range. It re-renders only when
+ * the scale enters or leaves the range, not on every transformation.
+ */
+export const ScaleRange: React.FC<ScaleRangeProps> = ({
+  children,
+  min = 0,
+  max = Infinity,
+}) => {
+  const threshold = useScaleThreshold([min, max]);
+
+  if (threshold !== min || min >= max) return null;
+
+  // Children can be a text or an array, which the component can't return directly
+  // eslint-disable-next-line react/jsx-no-useless-fragment
+  return <>{children}</>;
+};
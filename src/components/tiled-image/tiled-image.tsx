@@ -0,0 +1,192 @@
+/* eslint-disable react/require-default-props */
+import React, { useEffect, useRef, useState } from "react";
+
+import { useTransformContext, useVisibleRect } from "hooks";
+import { RectType } from "models";
+import {
+  getLevelForPixelRatio,
+  getMinLevel,
+  getVisibleTiles,
+  parseTiledImageDescriptor,
+  TiledImageSourceType,
+  TileType,
+} from "./tiled-image.utils";
+
+export type TiledImageProps = {
+  // Tiles config or the url of the Deep Zoom (.dzi) or IIIF info.json descriptor
+  source: TiledImageSourceType | string;
+  // Displayed width in the content pixels, by default the full resolution width
+  width?: number;
+  // Minimal time between the tiles updates during the transformation
+  throttle?: number;
+  alt?: string;
+} & Omit<
+  React.DetailedHTMLProps<React.HTMLAttributes<HTMLDivElement>, HTMLDivElement>,
+  "children"
+>;
+
+const tileStyles = {
+  position: "absolute",
+  display: "block",
+  maxWidth: "none",
+} as const;
+
+/**
+ * Position of the element in the untransformed content
+ */
+const getContentOffset = (
+  element: HTMLElement,
+  contentComponent: HTMLElement | null,
+) => {
+  let x = 0;
+  let y = 0;
+  let node: HTMLElement | null = element;
+
+  while (
+    node &&
+    node !== contentComponent &&
+    node !== contentComponent?.parentElement
+  ) {
+    x += node.offsetLeft;
+    y += node.offsetTop;
+    node = node.offsetParent as HTMLElement | null;
+  }
+
+  return { x, y };
+};
+
+const useTiledImageSource = (
+  source: TiledImageSourceType | string,
+): TiledImageSourceType | null => {
+  const [descriptor, setDescriptor] =
+    useState<TiledImageSourceType | null>(null);
+
+  useEffect(() => {
+    if (typeof source !== "string") return undefined;
+
+    let cancelled = false;
+    setDescriptor(null);
+
+    fetch(source)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load ${source}: ${response.status}`);
+        }
+        return response.text();
+      })
+      .then((text) => {
+        if (!cancelled) {
+          setDescriptor(parseTiledImageDescriptor(text, source));
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) console.error(error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  return typeof source === "string" ? descriptor : source;
+};
+
+export const TiledImage: React.FC<TiledImageProps> = ({
+  source,
+  width,
+  throttle = 0,
+  alt = "",
+  style,
+  ...rest
+}) => {
+  const instance = useTransformContext();
+  const visibleRect = useVisibleRect({ throttle });
+  const tiledSource = useTiledImageSource(source);
+
+  const imageRef = useRef<HTMLDivElement | null>(null);
+  const loadedTiles = useRef(new Set<string>());
+
+  useEffect(() => {
+    loadedTiles.current.clear();
+  }, [tiledSource]);
+
+  const displayWidth = width ?? tiledSource?.width ?? 0;
+  const ratio = tiledSource ? displayWidth / tiledSource.width : 1;
+  const displayHeight = tiledSource ? tiledSource.height * ratio : 0;
+
+  const getTiles = (): TileType[] => {
+    if (!tiledSource || !visibleRect || !imageRef.current || !ratio) return [];
+
+    const offset = getContentOffset(
+      imageRef.current,
+      instance.contentComponent,
+    );
+    const rect: RectType = {
+      x: (visibleRect.x - offset.x) / ratio,
+      y: (visibleRect.y - offset.y) / ratio,
+      width: visibleRect.width / ratio,
+      height: visibleRect.height / ratio,
+    };
+
+    // The axis zoom stretches the tiles too, so the larger axis scale is used
+    const { scale, scaleX, scaleY } = instance.transformState;
+    const devicePixelRatio =
+      (typeof window !== "undefined" && window.devicePixelRatio) || 1;
+    const pixelRatio =
+      scale * Math.max(scaleX, scaleY) * ratio * devicePixelRatio;
+    const level = getLevelForPixelRatio(tiledSource, pixelRatio);
+    const minLevel = getMinLevel(tiledSource);
+    const tiles: TileType[] = [];
+
+    // Lower levels stay beneath as the placeholders of the loading tiles
+    for (
+      let placeholderLevel = minLevel;
+      placeholderLevel < level;
+      placeholderLevel += 1
+    ) {
+      getVisibleTiles(tiledSource, placeholderLevel, rect).forEach((tile) => {
+        if (
+          placeholderLevel === minLevel ||
+          loadedTiles.current.has(tile.key)
+        ) {
+          tiles.push(tile);
+        }
+      });
+    }
+
+    return tiles.concat(getVisibleTiles(tiledSource, level, rect));
+  };
+
+  return (
+    <div
+      {...rest}
+      ref={imageRef}
+      style={{
+        position: "relative",
+        overflow: "hidden",
+        width: displayWidth,
+        height: displayHeight,
+        ...style,
+      }}
+    >
+      {getTiles().map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt={alt}
+          draggable={false}
+          data-level={tile.level}
+          onLoad={() => loadedTiles.current.add(tile.key)}
+          style={{
+            ...tileStyles,
+            zIndex: tile.level,
+            left: tile.left * ratio,
+            top: tile.top * ratio,
+            width: tile.width * ratio,
+            height: tile.height * ratio,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
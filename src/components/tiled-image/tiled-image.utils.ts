@@ -0,0 +1,262 @@
+import { RectType } from "../../models";
+
+export type TiledImageSourceType = {
+  // Full resolution size of the image
+  width: number;
+  height: number;
+  tileSize: number;
+  // Height of the non-square tiles, by default the tileSize
+  tileHeight?: number;
+  // Pixels shared by the neighbouring tiles, like in the Deep Zoom format
+  overlap?: number;
+  // Lowest available level, by default the level which fits into the single tile
+  minLevel?: number;
+  // Level 0 is the 1x1 image, the last level is the full resolution image
+  url: (level: number, x: number, y: number) => string;
+};
+
+export type TileType = {
+  key: string;
+  url: string;
+  level: number;
+  // Position and size in the full resolution image pixels
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export const getMaxLevel = ({ width, height }: TiledImageSourceType): number =>
+  Math.ceil(Math.log2(Math.max(width, height, 1)));
+
+export const getMinLevel = (source: TiledImageSourceType): number => {
+  const { width, height, tileSize, minLevel } = source;
+  const maxLevel = getMaxLevel(source);
+
+  if (minLevel !== undefined) return Math.min(minLevel, maxLevel);
+
+  const levelsOverTile = Math.ceil(
+    Math.log2(Math.max(width, height) / tileSize),
+  );
+  return Math.max(0, maxLevel - Math.max(0, levelsOverTile));
+};
+
+export const getLevelSize = (
+  source: TiledImageSourceType,
+  level: number,
+): { width: number; height: number } => {
+  const divider = 2 ** (getMaxLevel(source) - level);
+
+  return {
+    width: Math.ceil(source.width / divider),
+    height: Math.ceil(source.height / divider),
+  };
+};
+
+/**
+ * Picks the lowest level which is not upscaled on the screen
+ * @param pixelRatio - screen pixels per full resolution image pixel
+ */
+export const getLevelForPixelRatio = (
+  source: TiledImageSourceType,
+  pixelRatio: number,
+): number => {
+  const maxLevel = getMaxLevel(source);
+  const minLevel = getMinLevel(source);
+
+  if (!Number.isFinite(pixelRatio) || pixelRatio <= 0) return minLevel;
+
+  const level = maxLevel + Math.ceil(Math.log2(pixelRatio) - 0.001);
+  return Math.min(maxLevel, Math.max(minLevel, level));
+};
+
+const getTileRange = (
+  start: number,
+  end: number,
+  levelSize: number,
+  tileSize: number,
+): [number, number] => {
+  const lastTile = Math.ceil(levelSize / tileSize) - 1;
+  const first = Math.max(0, Math.floor(start / tileSize));
+  const last = Math.min(lastTile, Math.ceil(end / tileSize) - 1);
+
+  return [first, last];
+};
+
+/**
+ * Returns the tiles of the level which intersect the rect
+ * @param rect - region in the full resolution image pixels
+ */
+export const getVisibleTiles = (
+  source: TiledImageSourceType,
+  level: number,
+  rect: RectType,
+): TileType[] => {
+  const { tileSize, tileHeight = tileSize, overlap = 0 } = source;
+  const levelSize = getLevelSize(source, level);
+  const ratioX = source.width / levelSize.width;
+  const ratioY = source.height / levelSize.height;
+
+  const [firstX, lastX] = getTileRange(
+    rect.x / ratioX,
+    (rect.x + rect.width) / ratioX,
+    levelSize.width,
+    tileSize,
+  );
+  const [firstY, lastY] = getTileRange(
+    rect.y / ratioY,
+    (rect.y + rect.height) / ratioY,
+    levelSize.height,
+    tileHeight,
+  );
+
+  const tiles: TileType[] = [];
+
+  for (let y = firstY; y <= lastY; y += 1) {
+    for (let x = firstX; x <= lastX; x += 1) {
+      const left = Math.max(0, x * tileSize - overlap);
+      const top = Math.max(0, y * tileHeight - overlap);
+      const right = Math.min(levelSize.width, (x + 1) * tileSize + overlap);
+      const bottom = Math.min(levelSize.height, (y + 1) * tileHeight + overlap);
+
+      tiles.push({
+        key: `${level}/${x}_${y}`,
+        url: source.url(level, x, y),
+        level,
+        left: left * ratioX,
+        top: top * ratioY,
+        width: (right - left) * ratioX,
+        height: (bottom - top) * ratioY,
+      });
+    }
+  }
+
+  return tiles;
+};
+
+/**
+ * Parses the Deep Zoom (DZI) xml descriptor. The tiles are expected
+ * next to the descriptor, in the `<name>_files/<level>/<x>_<y>.<format>` files.
+ */
+export const parseDziDescriptor = (
+  xml: string,
+  descriptorUrl: string,
+): TiledImageSourceType => {
+  const document = new DOMParser().parseFromString(xml, "application/xml");
+  const image = document.getElementsByTagName("Image")[0];
+  const size = document.getElementsByTagName("Size")[0];
+
+  if (!image || !size) {
+    throw new Error("Invalid Deep Zoom descriptor");
+  }
+
+  const format = image.getAttribute("Format") || "jpg";
+  const baseUrl = descriptorUrl.replace(/\.(dzi|xml)(\?.*)?$/i, "");
+
+  return {
+    width: Number(size.getAttribute("Width")),
+    height: Number(size.getAttribute("Height")),
+    tileSize: Number(image.getAttribute("TileSize")),
+    overlap: Number(image.getAttribute("Overlap") || 0),
+    url: (level, x, y) => `${baseUrl}_files/${level}/${x}_${y}.${format}`,
+  };
+};
+
+export type IiifTilesType = {
+  width: number;
+  height?: number;
+  scaleFactors: number[];
+};
+
+/**
+ * The part of the IIIF Image API 2 and 3 info.json used for the tiles
+ */
+export type IiifInfoType = {
+  "@context"?: string | string[];
+  "@id"?: string;
+  id?: string;
+  type?: string;
+  width: number;
+  height: number;
+  tiles?: IiifTilesType[];
+  preferredFormats?: string[];
+};
+
+const iiifDefaultTileSize = 512;
+
+const isIiifVersion3 = (info: IiifInfoType): boolean => {
+  const context = ([] as string[]).concat(info["@context"] || []);
+
+  return (
+    info.type === "ImageService3" ||
+    context.some((value) => value.includes("/image/3/")) ||
+    (!info["@id"] && !!info.id)
+  );
+};
+
+/**
+ * Maps the IIIF scale factors to the levels and the tiles to the region and size
+ * url segments. Only the power of two scale factors are supported.
+ */
+export const parseIiifInfo = (info: IiifInfoType): TiledImageSourceType => {
+  const { width, height } = info;
+  const isVersion3 = isIiifVersion3(info);
+  const baseUrl = (info["@id"] || info.id || "").replace(/\/+$/, "");
+
+  if (!baseUrl || !width || !height) {
+    throw new Error("Invalid IIIF info.json");
+  }
+
+  const tiles = info.tiles?.[0];
+  const tileWidth = tiles?.width || iiifDefaultTileSize;
+  const tileHeight = tiles?.height || tileWidth;
+  const maxScaleFactor = tiles
+    ? Math.max(...tiles.scaleFactors)
+    : 2 ** Math.ceil(Math.log2(Math.max(width, height) / tileWidth));
+  const format = (isVersion3 && info.preferredFormats?.[0]) || "jpg";
+
+  const source: TiledImageSourceType = {
+    width,
+    height,
+    tileSize: tileWidth,
+    tileHeight,
+    url: (level, x, y) => {
+      const scaleFactor = 2 ** (getMaxLevel(source) - level);
+      const regionX = x * tileWidth * scaleFactor;
+      const regionY = y * tileHeight * scaleFactor;
+      const regionWidth = Math.min(tileWidth * scaleFactor, width - regionX);
+      const regionHeight = Math.min(tileHeight * scaleFactor, height - regionY);
+      const sizeWidth = Math.ceil(regionWidth / scaleFactor);
+      const sizeHeight = Math.ceil(regionHeight / scaleFactor);
+
+      const region =
+        regionWidth === width && regionHeight === height
+          ? "full"
+          : `${regionX},${regionY},${regionWidth},${regionHeight}`;
+      // Version 2 requires the "w," size syntax, version 3 the "w,h" one
+      const size = isVersion3 ? `${sizeWidth},${sizeHeight}` : `${sizeWidth},`;
+
+      return `${baseUrl}/${region}/${size}/0/default.${format}`;
+    },
+  };
+
+  source.minLevel = Math.max(
+    0,
+    getMaxLevel(source) - Math.round(Math.log2(Math.max(1, maxScaleFactor))),
+  );
+
+  return source;
+};
+
+/**
+ * Parses the Deep Zoom xml or the IIIF info.json descriptor
+ */
+export const parseTiledImageDescriptor = (
+  descriptor: string,
+  descriptorUrl: string,
+): TiledImageSourceType => {
+  if (descriptor.trim().startsWith("{")) {
+    return parseIiifInfo(JSON.parse(descriptor));
+  }
+  return parseDziDescriptor(descriptor, descriptorUrl);
+};
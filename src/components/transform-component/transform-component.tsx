@@ -65,7 +65,8 @@ export const TransformComponent: React.FC<Props> = ({
   children,
   childrenIncludesContentWrapper = false,
 }: Props) => {
-  const { init, cleanupWindowEvents } = useContext(Context);
+  const { init, cleanupWindowEvents, cleanupWrapperEvents, setup } =
+    useContext(Context);
 
   const wrapperRef = useRef<HTMLDivElement | null>(null);
   const contentRef = useRef<HTMLDivElement | null>(null);
@@ -79,11 +80,14 @@ export const TransformComponent: React.FC<Props> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
     return () => {
       cleanupWindowEvents?.();
+      if (wrapper !== null) cleanupWrapperEvents?.(wrapper);
     };
   }, []);
 
   return (
     <div
+      // Wrapper has to be focusable to receive the keyboard shortcuts
+      tabIndex={setup.keyboard.disabled ? undefined : 0}
       {...wrapperProps}
       ref={wrapperRef}
       className={`${baseClasses.wrapperClass} ${styles.wrapper} ${wrapperClass}`}
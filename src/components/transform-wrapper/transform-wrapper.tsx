@@ -1,4 +1,9 @@
-import React, { useEffect, useImperativeHandle, useRef } from "react";
+import React, {
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+} from "react";
 
 import { ZoomPanPinch } from "../../core/instance.core";
 import {
@@ -30,6 +35,16 @@ export const TransformWrapper = React.forwardRef(
 
     useImperativeHandle(ref, () => getControls(instance), [instance]);
 
+    const { scale, positionX, positionY, rotation, scaleX, scaleY } =
+      props.transform || {};
+
+    // Controlled transform is applied before the paint to avoid flickering
+    useLayoutEffect(() => {
+      instance.props = props;
+      instance.syncTransform();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [instance, scale, positionX, positionY, rotation, scaleX, scaleY]);
+
     useEffect(() => {
       instance.update(props);
     }, [instance, props]);
@@ -9,6 +9,9 @@ export const initialState: ReactZoomPanPinchState = {
   scale: 1,
   positionX: 0,
   positionY: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
 };
 
 export const initialSetup: LibrarySetup = {
@@ -19,11 +22,21 @@ export const initialSetup: LibrarySetup = {
   maxPositionY: null,
   minScale: 1,
   maxScale: 8,
+  zoomLevels: [],
   limitToBounds: true,
   centerZoomedOut: false,
+  boundsStrategy: "cover",
+  boundsMargin: 100,
   centerOnInit: false,
   disablePadding: false,
+  viewportInsets: {
+    top: 0,
+    right: 0,
+    bottom: 0,
+    left: 0,
+  },
   smooth: true,
+  inputMode: "legacy",
   wheel: {
     step: 0.2,
     disabled: false,
@@ -32,6 +45,7 @@ export const initialSetup: LibrarySetup = {
     touchPadDisabled: false,
     activationKeys: [],
     excluded: [],
+    axis: "both",
   },
   panning: {
     disabled: false,
@@ -48,7 +62,9 @@ export const initialSetup: LibrarySetup = {
   pinch: {
     step: 5,
     disabled: false,
+    allowRotation: false,
     excluded: [],
+    axis: "both",
   },
   doubleClick: {
     disabled: false,
@@ -58,6 +74,34 @@ export const initialSetup: LibrarySetup = {
     animationTime: 200,
     excluded: [],
   },
+  keyboard: {
+    disabled: true,
+    panStep: 50,
+    zoomStep: 0.5,
+    animationTime: 200,
+    animationType: "easeOut",
+    panUpKeys: ["ArrowUp"],
+    panDownKeys: ["ArrowDown"],
+    panLeftKeys: ["ArrowLeft"],
+    panRightKeys: ["ArrowRight"],
+    zoomInKeys: ["+", "="],
+    zoomOutKeys: ["-", "_"],
+    resetKeys: ["0"],
+    fitKeys: ["1"],
+    excluded: [],
+  },
+  history: {
+    disabled: false,
+    limit: 50,
+  },
+  snap: {
+    disabled: false,
+    gridX: 0,
+    gridY: 0,
+    pageSelector: "",
+    animationTime: 300,
+    animationType: "easeOut",
+  },
   zoomAnimation: {
     disabled: false,
     size: 0.4,
@@ -71,6 +115,8 @@ export const initialSetup: LibrarySetup = {
     animationTime: 200,
     velocityAlignmentTime: 400,
     animationType: "easeOut",
+    elastic: false,
+    elasticity: 0.15,
   },
   velocityAnimation: {
     disabled: false,
@@ -1,20 +1,160 @@
 /* eslint-disable no-param-reassign */
 import { animations } from "./animations.constants";
+import { handleTransformSettle } from "../settle/settle.logic";
 import {
+  calculateCenteredTransform,
+  getViewportArea,
+  getViewportCenter,
+} from "../viewport/viewport.utils";
+import { createFlyToPath } from "./fly-to.utils";
+import {
+  AnimationResultType,
   AnimationType,
+  AnimationTypeOption,
+  EasingFunctionType,
+  FlyToAnimationType,
   ReactZoomPanPinchContext,
+  SpringAnimationType,
   StateType,
 } from "../../models";
 
+const springDefaults = { stiffness: 170, damping: 26, mass: 1 };
+// Velocity is kept for the retargeted spring only if its previous frame was recent
+const springRetargetTime = 100;
+const springMaxFrameTime = 64;
+const springStepTime = 4;
+const springPrecision = { value: 0.001, velocity: 0.01 };
+
+const flyToDefaults: Required<Omit<FlyToAnimationType, "type">> = {
+  curvature: 1.42,
+  speed: 1,
+  easing: "easeInOutCubic",
+};
+
+const cubicBezierPattern =
+  /^cubic-bezier\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)$/;
+const cubicBezierCache = new Map<string, EasingFunctionType>();
+
+const createCubicBezier = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+): EasingFunctionType => {
+  const getBezier = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+  const getSlope = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * p1 +
+    6 * (1 - t) * t * (p2 - p1) +
+    3 * t * t * (1 - p2);
+
+  const getCurveTime = (x: number): number => {
+    // Newton's method converges fast on the most of the curves
+    let t = x;
+    for (let i = 0; i < 8; i += 1) {
+      const error = getBezier(t, x1, x2) - x;
+      const slope = getSlope(t, x1, x2);
+      if (Math.abs(error) < 1e-6) return t;
+      if (Math.abs(slope) < 1e-6) break;
+      t -= error / slope;
+    }
+
+    // Bisection fallback for the flat parts of the curve
+    let low = 0;
+    let high = 1;
+    t = x;
+    while (high - low > 1e-6) {
+      if (getBezier(t, x1, x2) < x) low = t;
+      else high = t;
+      t = (low + high) / 2;
+    }
+    return t;
+  };
+
+  return (t: number) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return getBezier(getCurveTime(t), y1, y2);
+  };
+};
+
+const parseCubicBezier = (value: string): EasingFunctionType | null => {
+  const cached = cubicBezierCache.get(value);
+  if (cached) return cached;
+
+  const match = value.trim().match(cubicBezierPattern);
+  if (!match) return null;
+
+  const [x1, y1, x2, y2] = match.slice(1).map(Number);
+  if (
+    [x1, y1, x2, y2].some(Number.isNaN) ||
+    x1 < 0 ||
+    x1 > 1 ||
+    x2 < 0 ||
+    x2 > 1
+  ) {
+    return null;
+  }
+
+  const easing = createCubicBezier(x1, y1, x2, y2);
+  cubicBezierCache.set(value, easing);
+  return easing;
+};
+
+export const isSpringAnimation = (
+  animationType: AnimationTypeOption,
+): animationType is SpringAnimationType =>
+  typeof animationType === "object" &&
+  animationType !== null &&
+  animationType.type === "spring";
+
+export const isFlyToAnimation = (
+  animationType: AnimationTypeOption,
+): animationType is FlyToAnimationType =>
+  typeof animationType === "object" &&
+  animationType !== null &&
+  animationType.type === "flyTo";
+
+/**
+ * Resolves the animationType option into the easing function.
+ * Springs and fly-to paths only apply to the animate() transitions,
+ * so they fall back to easeOut in the other timed animations.
+ */
+export const getEasingFunction = (
+  animationType: AnimationTypeOption,
+): EasingFunctionType => {
+  if (typeof animationType === "function") return animationType;
+  if (typeof animationType === "object") return animations.easeOut;
+  if (animations[animationType]) return animations[animationType];
+
+  const cubicBezier = parseCubicBezier(animationType);
+  if (cubicBezier) return cubicBezier;
+
+  console.error(
+    `Unknown animationType "${animationType}", falling back to easeOut.`,
+  );
+  return animations.easeOut;
+};
+
 const handleCancelAnimationFrame = (animation: AnimationType | null) => {
   if (typeof animation === "number") {
     cancelAnimationFrame(animation);
   }
 };
 
+const handleAnimationEnd = (
+  contextInstance: ReactZoomPanPinchContext,
+  completed: boolean,
+) => {
+  const { animationEndCallback } = contextInstance;
+  contextInstance.animationEndCallback = null;
+  animationEndCallback?.(completed);
+};
+
 export const handleCancelAnimation = (
   contextInstance: ReactZoomPanPinchContext,
 ): void => {
+  handleAnimationEnd(contextInstance, false);
   if (!contextInstance.mounted) return;
   handleCancelAnimationFrame(contextInstance.animation);
   // Clear animation state
@@ -25,13 +165,14 @@ export const handleCancelAnimation = (
 
 export function handleSetupAnimation(
   contextInstance: ReactZoomPanPinchContext,
-  animationName: string,
+  animationName: AnimationTypeOption,
   animationTime: number,
   callback: (step: number) => void,
 ): void {
   if (!contextInstance.mounted) return;
-  const startTime = new Date().getTime();
+  const startTime = Date.now();
   const lastStep = 1;
+  const easing = getEasingFunction(animationName);
 
   // if another animation is active
   handleCancelAnimation(contextInstance);
@@ -42,15 +183,15 @@ export function handleSetupAnimation(
       return handleCancelAnimationFrame(contextInstance.animation);
     }
 
-    const frameTime = new Date().getTime() - startTime;
+    const frameTime = Date.now() - startTime;
     const animationProgress = frameTime / animationTime;
-    const animationType = animations[animationName];
-
-    const step = animationType(animationProgress);
+    const step = easing(animationProgress);
 
     if (frameTime >= animationTime) {
       callback(lastStep);
       contextInstance.animation = null;
+      handleTransformSettle(contextInstance);
+      handleAnimationEnd(contextInstance, true);
     } else if (contextInstance.animation) {
       callback(step);
       requestAnimationFrame(contextInstance.animation);
@@ -60,13 +201,201 @@ export function handleSetupAnimation(
   requestAnimationFrame(contextInstance.animation);
 }
 
+const springKeys = [
+  "scale",
+  "positionX",
+  "positionY",
+  "rotation",
+  "scaleX",
+  "scaleY",
+] as const;
+
+/**
+ * Moves every transform value with the damped spring towards the target.
+ * Retargeting the running spring keeps its velocity, so the motion stays continuous.
+ */
+export function handleSetupSpringAnimation(
+  contextInstance: ReactZoomPanPinchContext,
+  targetState: Required<StateType>,
+  spring: SpringAnimationType,
+): void {
+  if (!contextInstance.mounted) return;
+  const { stiffness, damping, mass } = { ...springDefaults, ...spring };
+
+  const { springVelocity, springTime } = contextInstance;
+  const canRetarget =
+    springVelocity !== null &&
+    springTime !== null &&
+    Date.now() - springTime < springRetargetTime;
+
+  handleCancelAnimation(contextInstance);
+
+  const current = { ...contextInstance.transformState };
+  const velocity: Required<StateType> =
+    canRetarget && springVelocity
+      ? { ...springVelocity }
+      : {
+          scale: 0,
+          positionX: 0,
+          positionY: 0,
+          rotation: 0,
+          scaleX: 0,
+          scaleY: 0,
+        };
+  let lastTime = Date.now();
+
+  contextInstance.springVelocity = velocity;
+  contextInstance.springTime = lastTime;
+
+  const isSettled = () =>
+    springKeys.every(
+      (key) =>
+        Math.abs(targetState[key] - current[key]) < springPrecision.value &&
+        Math.abs(velocity[key]) < springPrecision.velocity,
+    );
+
+  contextInstance.animation = () => {
+    if (!contextInstance.mounted) {
+      return handleCancelAnimationFrame(contextInstance.animation);
+    }
+
+    const now = Date.now();
+    let remainingTime = Math.min(now - lastTime, springMaxFrameTime);
+    lastTime = now;
+
+    // Small fixed substeps keep the integration stable for stiff springs
+    while (remainingTime > 0) {
+      const dt = Math.min(remainingTime, springStepTime) / 1000;
+      springKeys.forEach((key) => {
+        const force = -stiffness * (current[key] - targetState[key]);
+        const dampingForce = -damping * velocity[key];
+        velocity[key] += ((force + dampingForce) / mass) * dt;
+        current[key] += velocity[key] * dt;
+      });
+      remainingTime -= springStepTime;
+    }
+
+    if (isSettled()) {
+      contextInstance.setTransformState(
+        targetState.scale,
+        targetState.positionX,
+        targetState.positionY,
+        targetState.rotation,
+        targetState.scaleX,
+        targetState.scaleY,
+      );
+      contextInstance.animation = null;
+      contextInstance.springVelocity = null;
+      contextInstance.springTime = null;
+      handleTransformSettle(contextInstance);
+      handleAnimationEnd(contextInstance, true);
+    } else if (contextInstance.animation) {
+      contextInstance.springTime = now;
+      contextInstance.setTransformState(
+        current.scale,
+        current.positionX,
+        current.positionY,
+        current.rotation,
+        current.scaleX,
+        current.scaleY,
+      );
+      requestAnimationFrame(contextInstance.animation);
+    }
+  };
+
+  requestAnimationFrame(contextInstance.animation);
+}
+
+/**
+ * Zooms out, pans and zooms in along the smooth path between the current and the target view.
+ * The duration depends on the distance travelled.
+ */
+export function handleSetupFlyToAnimation(
+  contextInstance: ReactZoomPanPinchContext,
+  targetState: Required<StateType>,
+  flyTo: FlyToAnimationType,
+): void {
+  const { wrapperComponent, transformState, setTransformState } =
+    contextInstance;
+  const { curvature, speed, easing } = { ...flyToDefaults, ...flyTo };
+
+  const fromCenter = getViewportCenter(contextInstance);
+  const toCenter = getViewportCenter(contextInstance, targetState);
+
+  if (!wrapperComponent || !fromCenter || !toCenter) return;
+
+  const { width: viewportWidth } = getViewportArea(
+    wrapperComponent,
+    contextInstance.setup.viewportInsets,
+  );
+  const { scale, rotation, scaleX, scaleY } = transformState;
+  const rotationDiff = targetState.rotation - rotation;
+  const scaleXDiff = targetState.scaleX - scaleX;
+  const scaleYDiff = targetState.scaleY - scaleY;
+
+  const path = createFlyToPath(
+    { ...fromCenter, width: viewportWidth / scale },
+    { ...toCenter, width: viewportWidth / targetState.scale },
+    curvature,
+  );
+  const animationTime = (path.length * 1000 * curvature) / Math.SQRT2 / speed;
+
+  const setTargetState = () =>
+    setTransformState(
+      targetState.scale,
+      targetState.positionX,
+      targetState.positionY,
+      targetState.rotation,
+      targetState.scaleX,
+      targetState.scaleY,
+    );
+
+  if (!animationTime || !Number.isFinite(animationTime)) {
+    setTargetState();
+    handleTransformSettle(contextInstance);
+    return;
+  }
+
+  handleSetupAnimation(contextInstance, easing, animationTime, (step) => {
+    if (step === 1) {
+      setTargetState();
+      return;
+    }
+
+    const view = path.interpolate(step);
+    const state = calculateCenteredTransform(
+      contextInstance,
+      view.x,
+      view.y,
+      viewportWidth / view.width,
+      rotation + rotationDiff * step,
+      scaleX + scaleXDiff * step,
+      scaleY + scaleYDiff * step,
+    );
+
+    if (state) {
+      setTransformState(
+        state.scale,
+        state.positionX,
+        state.positionY,
+        state.rotation,
+        state.scaleX,
+        state.scaleY,
+      );
+    }
+  });
+}
+
 function isValidTargetState(targetState: StateType): boolean {
-  const { scale, positionX, positionY } = targetState;
+  const { scale, positionX, positionY, rotation, scaleX, scaleY } = targetState;
 
   if (
     Number.isNaN(scale) ||
     Number.isNaN(positionX) ||
-    Number.isNaN(positionY)
+    Number.isNaN(positionY) ||
+    Number.isNaN(rotation) ||
+    Number.isNaN(scaleX) ||
+    Number.isNaN(scaleY)
   ) {
     return false;
   }
@@ -78,24 +407,43 @@ export function animate(
   contextInstance: ReactZoomPanPinchContext,
   targetState: StateType,
   animationTime: number,
-  animationName: string,
+  animationName: AnimationTypeOption,
 ): void {
   const isValid = isValidTargetState(targetState);
   if (!contextInstance.mounted || !isValid) return;
 
   const { setTransformState } = contextInstance;
-  const { scale, positionX, positionY } = contextInstance.transformState;
+  const { scale, positionX, positionY, rotation, scaleX, scaleY } =
+    contextInstance.transformState;
+  // Values missing in the target state are kept
+  const target: Required<StateType> = {
+    ...targetState,
+    rotation: targetState.rotation ?? rotation,
+    scaleX: targetState.scaleX ?? scaleX,
+    scaleY: targetState.scaleY ?? scaleY,
+  };
 
-  const scaleDiff = targetState.scale - scale;
-  const positionXDiff = targetState.positionX - positionX;
-  const positionYDiff = targetState.positionY - positionY;
+  const scaleDiff = target.scale - scale;
+  const positionXDiff = target.positionX - positionX;
+  const positionYDiff = target.positionY - positionY;
+  const rotationDiff = target.rotation - rotation;
+  const scaleXDiff = target.scaleX - scaleX;
+  const scaleYDiff = target.scaleY - scaleY;
 
   if (animationTime === 0) {
     setTransformState(
-      targetState.scale,
-      targetState.positionX,
-      targetState.positionY,
+      target.scale,
+      target.positionX,
+      target.positionY,
+      target.rotation,
+      target.scaleX,
+      target.scaleY,
     );
+    handleTransformSettle(contextInstance);
+  } else if (isFlyToAnimation(animationName)) {
+    handleSetupFlyToAnimation(contextInstance, target, animationName);
+  } else if (isSpringAnimation(animationName)) {
+    handleSetupSpringAnimation(contextInstance, target, animationName);
   } else {
     // animation start timestamp
     handleSetupAnimation(
@@ -106,9 +454,76 @@ export function animate(
         const newScale = scale + scaleDiff * step;
         const newPositionX = positionX + positionXDiff * step;
         const newPositionY = positionY + positionYDiff * step;
+        const newRotation = rotation + rotationDiff * step;
+        const newScaleX = scaleX + scaleXDiff * step;
+        const newScaleY = scaleY + scaleYDiff * step;
 
-        setTransformState(newScale, newPositionX, newPositionY);
+        setTransformState(
+          newScale,
+          newPositionX,
+          newPositionY,
+          newRotation,
+          newScaleX,
+          newScaleY,
+        );
       },
     );
   }
 }
+
+/**
+ * Runs the transformation and resolves when its animation finishes.
+ * The result is not completed when the animation was cancelled, eg. by a gesture
+ * or another animation, when the signal was aborted or when the transformation
+ * didn't change anything, eg. the instance is disabled or the node is missing.
+ * In the controlled mode the state is the one proposed to onTransformChange.
+ */
+export function handleAnimationResult(
+  contextInstance: ReactZoomPanPinchContext,
+  transform: () => void,
+  signal?: AbortSignal,
+): Promise<AnimationResultType> {
+  return new Promise((resolve) => {
+    const initialProposedState = contextInstance.proposedState;
+    const isProposed = () =>
+      contextInstance.proposedState !== initialProposedState;
+
+    const getResult = (completed: boolean): AnimationResultType => {
+      const { props, proposedState, transformState } = contextInstance;
+      const state =
+        props.transform && proposedState && isProposed()
+          ? proposedState
+          : transformState;
+
+      return { state: { ...state }, completed };
+    };
+
+    if (signal?.aborted) {
+      resolve(getResult(false));
+      return;
+    }
+
+    transform();
+
+    // Instant transformations are already applied
+    if (!contextInstance.animation) {
+      resolve(getResult(isProposed()));
+      return;
+    }
+
+    // The earlier handler's animation was replaced, so it can't complete anymore
+    handleAnimationEnd(contextInstance, false);
+
+    let isPending = true;
+    const handleAbort = () => {
+      if (isPending) handleCancelAnimation(contextInstance);
+    };
+
+    contextInstance.animationEndCallback = (completed: boolean) => {
+      isPending = false;
+      signal?.removeEventListener("abort", handleAbort);
+      resolve(getResult(completed));
+    };
+    signal?.addEventListener("abort", handleAbort);
+  });
+}
@@ -0,0 +1,75 @@
+import { PositionType } from "../../models";
+
+export type FlyToViewType = PositionType & {
+  // Visible width of the content, in the content coordinates
+  width: number;
+};
+
+export type FlyToPathType = {
+  interpolate: (t: number) => FlyToViewType;
+  // Length of the path in the zoom-pan space
+  length: number;
+};
+
+const epsilon = 1e-12;
+
+/**
+ * Creates the smooth zoom-pan path between two views, as described in
+ * "Smooth and efficient zooming and panning" by J.J. van Wijk and W.A.A. Nuij.
+ * The curvature (rho) controls how much the view zooms out during the flight.
+ */
+export const createFlyToPath = (
+  from: FlyToViewType,
+  to: FlyToViewType,
+  curvature: number,
+): FlyToPathType => {
+  const rho = curvature;
+  const rho2 = rho * rho;
+  const rho4 = rho2 * rho2;
+
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const d2 = dx * dx + dy * dy;
+
+  // Both views have the same center, so only the zoom changes
+  if (d2 < epsilon) {
+    const length = Math.log(to.width / from.width) / rho;
+
+    return {
+      interpolate: (t) => ({
+        x: from.x + t * dx,
+        y: from.y + t * dy,
+        width: from.width * Math.exp(rho * t * length),
+      }),
+      length: Math.abs(length),
+    };
+  }
+
+  const d1 = Math.sqrt(d2);
+  const b0 =
+    (to.width * to.width - from.width * from.width + rho4 * d2) /
+    (2 * from.width * rho2 * d1);
+  const b1 =
+    (to.width * to.width - from.width * from.width - rho4 * d2) /
+    (2 * to.width * rho2 * d1);
+  const r0 = Math.log(Math.sqrt(b0 * b0 + 1) - b0);
+  const r1 = Math.log(Math.sqrt(b1 * b1 + 1) - b1);
+  const length = (r1 - r0) / rho;
+  const coshR0 = Math.cosh(r0);
+
+  return {
+    interpolate: (t) => {
+      const s = t * length;
+      const u =
+        (from.width / (rho2 * d1)) *
+        (coshR0 * Math.tanh(rho * s + r0) - Math.sinh(r0));
+
+      return {
+        x: from.x + u * dx,
+        y: from.y + u * dy,
+        width: (from.width * coshR0) / Math.cosh(rho * s + r0),
+      };
+    },
+    length,
+  };
+};
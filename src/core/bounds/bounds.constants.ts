@@ -0,0 +1,67 @@
+import { BoundsType } from "../../models/calculations.model";
+import { BoundsStrategySetupType, ComponentsSizesType } from "./bounds.types";
+
+/**
+ * Strategies return the bounds of the transformed content bounding box.
+ */
+
+// content must cover the wrapper, the smaller content stays inside of it
+const cover = (
+  sizes: ComponentsSizesType,
+  { centerZoomedOut }: BoundsStrategySetupType,
+): BoundsType => {
+  const { wrapperWidth, wrapperHeight, newContentWidth, newContentHeight } =
+    sizes;
+  const { newDiffWidth, newDiffHeight } = sizes;
+
+  const scaleWidthFactor =
+    wrapperWidth > newContentWidth
+      ? newDiffWidth * (centerZoomedOut ? 1 : 0.5)
+      : 0;
+  const scaleHeightFactor =
+    wrapperHeight > newContentHeight
+      ? newDiffHeight * (centerZoomedOut ? 1 : 0.5)
+      : 0;
+
+  const minPositionX = wrapperWidth - newContentWidth - scaleWidthFactor;
+  const maxPositionX = scaleWidthFactor;
+  const minPositionY = wrapperHeight - newContentHeight - scaleHeightFactor;
+  const maxPositionY = scaleHeightFactor;
+
+  return { minPositionX, maxPositionX, minPositionY, maxPositionY };
+};
+
+// content can be panned until its edge reaches the wrapper center
+const center = ({
+  wrapperWidth,
+  wrapperHeight,
+  newContentWidth,
+  newContentHeight,
+}: ComponentsSizesType): BoundsType => ({
+  minPositionX: wrapperWidth / 2 - newContentWidth,
+  maxPositionX: wrapperWidth / 2,
+  minPositionY: wrapperHeight / 2 - newContentHeight,
+  maxPositionY: wrapperHeight / 2,
+});
+
+// cover bounds extended by the fixed margin in pixels
+const overscroll = (
+  sizes: ComponentsSizesType,
+  setup: BoundsStrategySetupType,
+): BoundsType => {
+  const { boundsMargin } = setup;
+  const bounds = cover(sizes, setup);
+
+  return {
+    minPositionX: bounds.minPositionX - boundsMargin,
+    maxPositionX: bounds.maxPositionX + boundsMargin,
+    minPositionY: bounds.minPositionY - boundsMargin,
+    maxPositionY: bounds.maxPositionY + boundsMargin,
+  };
+};
+
+export const boundsStrategies = {
+  cover,
+  center,
+  overscroll,
+};
@@ -5,4 +5,11 @@ export type ComponentsSizesType = {
   newDiffWidth: number;
   newContentHeight: number;
   newDiffHeight: number;
+  newContentOffsetX: number;
+  newContentOffsetY: number;
+};
+
+export type BoundsStrategySetupType = {
+  centerZoomedOut: boolean;
+  boundsMargin: number;
 };
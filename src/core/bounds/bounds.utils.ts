@@ -4,22 +4,42 @@ import {
   BoundsType,
   PositionType,
   ReactZoomPanPinchContext,
+  ReactZoomPanPinchState,
+  ViewportAreaType,
 } from "../../models";
+import { getTransformedSize } from "../rotation/rotation.utils";
+import { getViewportArea } from "../viewport/viewport.utils";
+import { boundsStrategies } from "./bounds.constants";
 import { ComponentsSizesType } from "./bounds.types";
 
 export function getComponentsSizes(
-  wrapperComponent: HTMLDivElement,
+  viewport: ViewportAreaType,
   contentComponent: HTMLDivElement,
   newScale: number,
+  rotation = 0,
+  scaleX = 1,
+  scaleY = 1,
 ): ComponentsSizesType {
-  const wrapperWidth = wrapperComponent.offsetWidth;
-  const wrapperHeight = wrapperComponent.offsetHeight;
+  // The wrapper sizes are the visible area, without the viewport insets
+  const wrapperWidth = viewport.width;
+  const wrapperHeight = viewport.height;
 
   const contentWidth = contentComponent.offsetWidth;
   const contentHeight = contentComponent.offsetHeight;
 
-  const newContentWidth = contentWidth * newScale;
-  const newContentHeight = contentHeight * newScale;
+  // Rotated content takes the space of its bounding box
+  const {
+    width: newContentWidth,
+    height: newContentHeight,
+    offsetX: newContentOffsetX,
+    offsetY: newContentOffsetY,
+  } = getTransformedSize(
+    contentWidth,
+    contentHeight,
+    newScale * scaleX,
+    newScale * scaleY,
+    rotation,
+  );
   const newDiffWidth = wrapperWidth - newContentWidth;
   const newDiffHeight = wrapperHeight - newContentHeight;
 
@@ -30,65 +50,82 @@ export function getComponentsSizes(
     newDiffWidth,
     newContentHeight,
     newDiffHeight,
+    newContentOffsetX,
+    newContentOffsetY,
   };
 }
 
-export const getBounds = (
-  wrapperWidth: number,
-  newContentWidth: number,
-  diffWidth: number,
-  wrapperHeight: number,
-  newContentHeight: number,
-  diffHeight: number,
-  centerZoomedOut: boolean,
+/**
+ * Returns the bounds of the chosen strategy, by default the content must cover the wrapper
+ */
+export const getStrategyBounds = (
+  contextInstance: ReactZoomPanPinchContext,
+  state: ReactZoomPanPinchState,
+  sizes: ComponentsSizesType,
 ): BoundsType => {
-  const scaleWidthFactor =
-    wrapperWidth > newContentWidth
-      ? diffWidth * (centerZoomedOut ? 1 : 0.5)
-      : 0;
-  const scaleHeightFactor =
-    wrapperHeight > newContentHeight
-      ? diffHeight * (centerZoomedOut ? 1 : 0.5)
-      : 0;
-
-  const minPositionX = wrapperWidth - newContentWidth - scaleWidthFactor;
-  const maxPositionX = scaleWidthFactor;
-  const minPositionY = wrapperHeight - newContentHeight - scaleHeightFactor;
-  const maxPositionY = scaleHeightFactor;
-
-  return { minPositionX, maxPositionX, minPositionY, maxPositionY };
+  const { boundsStrategy, centerZoomedOut, boundsMargin } =
+    contextInstance.setup;
+
+  if (typeof boundsStrategy === "function") {
+    return boundsStrategy(state, sizes);
+  }
+
+  const strategy = boundsStrategies[boundsStrategy];
+
+  if (!strategy) {
+    console.error(`Unknown bounds strategy "${boundsStrategy}"`);
+    return boundsStrategies.cover(sizes, { centerZoomedOut, boundsMargin });
+  }
+
+  return strategy(sizes, { centerZoomedOut, boundsMargin });
 };
 
 export const calculateBounds = (
   contextInstance: ReactZoomPanPinchContext,
   newScale: number,
+  newRotation?: number,
+  newScaleX?: number,
+  newScaleY?: number,
 ): BoundsType => {
-  const { wrapperComponent, contentComponent } = contextInstance;
-  const { centerZoomedOut } = contextInstance.setup;
+  const { wrapperComponent, contentComponent, transformState } =
+    contextInstance;
 
   if (!wrapperComponent || !contentComponent) {
     throw new Error("Components are not mounted");
   }
 
-  const {
-    wrapperWidth,
-    wrapperHeight,
-    newContentWidth,
-    newDiffWidth,
-    newContentHeight,
-    newDiffHeight,
-  } = getComponentsSizes(wrapperComponent, contentComponent, newScale);
-
-  const bounds = getBounds(
-    wrapperWidth,
-    newContentWidth,
-    newDiffWidth,
-    wrapperHeight,
-    newContentHeight,
-    newDiffHeight,
-    Boolean(centerZoomedOut),
+  const state = {
+    ...transformState,
+    scale: newScale,
+    rotation: newRotation ?? transformState.rotation,
+    scaleX: newScaleX ?? transformState.scaleX,
+    scaleY: newScaleY ?? transformState.scaleY,
+  };
+  const viewport = getViewportArea(
+    wrapperComponent,
+    contextInstance.setup.viewportInsets,
   );
-  return bounds;
+  const sizes = getComponentsSizes(
+    viewport,
+    contentComponent,
+    state.scale,
+    state.rotation,
+    state.scaleX,
+    state.scaleY,
+  );
+  const bounds = getStrategyBounds(contextInstance, state, sizes);
+
+  // Bounds are calculated for the bounding box in the visible area,
+  // shift them to the transform origin in the wrapper
+  const shiftX = viewport.left - sizes.newContentOffsetX;
+  const shiftY = viewport.top - sizes.newContentOffsetY;
+
+  return {
+    minPositionX: bounds.minPositionX + shiftX,
+    maxPositionX: bounds.maxPositionX + shiftX,
+    minPositionY: bounds.minPositionY + shiftY,
+    maxPositionY: bounds.maxPositionY + shiftY,
+  };
 };
 
 export function clamp(v: number, min: number, max: number) {
@@ -143,8 +180,17 @@ export const boundLimiter = (
 export const handleCalculateBounds = (
   contextInstance: ReactZoomPanPinchContext,
   newScale: number,
+  newRotation?: number,
+  newScaleX?: number,
+  newScaleY?: number,
 ): BoundsType => {
-  const bounds = calculateBounds(contextInstance, newScale);
+  const bounds = calculateBounds(
+    contextInstance,
+    newScale,
+    newRotation,
+    newScaleX,
+    newScaleY,
+  );
 
   // Save bounds
   contextInstance.bounds = bounds;
@@ -185,3 +231,36 @@ export function getMouseBoundedPosition(
   );
   return { x, y };
 }
+
+/**
+ * Resists the position progressively past the bounds instead of clamping it.
+ * The position has to be the unresisted one, eg. from the gesture start.
+ */
+export function getElasticBoundedPosition(
+  positionX: number,
+  positionY: number,
+  bounds: BoundsType,
+  limitToBounds: boolean,
+  elasticity: number,
+): PositionType {
+  const { minPositionX, minPositionY, maxPositionX, maxPositionY } = bounds;
+
+  if (!limitToBounds) {
+    return { x: roundNumber(positionX, 2), y: roundNumber(positionY, 2) };
+  }
+
+  const x = rubberbandIfOutOfBounds(
+    positionX,
+    minPositionX,
+    maxPositionX,
+    elasticity,
+  );
+  const y = rubberbandIfOutOfBounds(
+    positionY,
+    minPositionY,
+    maxPositionY,
+    elasticity,
+  );
+
+  return { x: roundNumber(x, 2), y: roundNumber(y, 2) };
+}
@@ -0,0 +1,163 @@
+import {
+  PositionType,
+  ReactZoomPanPinchContext,
+  ReactZoomPanPinchState,
+} from "../../models";
+
+/**
+ * 2D affine transformation in the DOMMatrix notation,
+ * maps the content coordinates to the wrapper coordinates
+ */
+export type AffineMatrixType = {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+};
+
+const isDOMMatrixSupported = (): boolean => typeof DOMMatrix !== "undefined";
+
+const getStateMatrix = ({
+  scale,
+  positionX,
+  positionY,
+  rotation,
+  scaleX,
+  scaleY,
+}: ReactZoomPanPinchState): AffineMatrixType => {
+  // Same as the `translate() scale() rotate()` transform with the top-left origin
+  const radians = (rotation * Math.PI) / 180;
+  const axisScaleX = scale * scaleX;
+  const axisScaleY = scale * scaleY;
+
+  return {
+    a: axisScaleX * Math.cos(radians),
+    b: axisScaleY * Math.sin(radians),
+    c: -axisScaleX * Math.sin(radians),
+    d: axisScaleY * Math.cos(radians),
+    e: positionX,
+    f: positionY,
+  };
+};
+
+/**
+ * Returns the matrix of the applied transformation. The custom transform is parsed
+ * when the browser supports DOMMatrix, otherwise the transform state is used.
+ */
+export const getAffineMatrix = (
+  contextInstance: ReactZoomPanPinchContext,
+): AffineMatrixType => {
+  const { transformState, props } = contextInstance;
+  const { customTransform } = props;
+
+  if (customTransform && isDOMMatrixSupported()) {
+    const { scale, positionX, positionY, rotation, scaleX, scaleY } =
+      transformState;
+
+    try {
+      const { a, b, c, d, e, f } = new DOMMatrix(
+        customTransform(positionX, positionY, scale, rotation, scaleX, scaleY),
+      );
+      return { a, b, c, d, e, f };
+    } catch (error) {
+      console.error("Custom transform could not be parsed", error);
+    }
+  }
+
+  return getStateMatrix(transformState);
+};
+
+export const invertAffineMatrix = ({
+  a,
+  b,
+  c,
+  d,
+  e,
+  f,
+}: AffineMatrixType): AffineMatrixType => {
+  const determinant = a * d - b * c;
+
+  if (!determinant) {
+    return { a: 1, b: 0, c: 0, d: 1, e: -e, f: -f };
+  }
+
+  return {
+    a: d / determinant,
+    b: -b / determinant,
+    c: -c / determinant,
+    d: a / determinant,
+    e: (c * f - d * e) / determinant,
+    f: (b * e - a * f) / determinant,
+  };
+};
+
+export const transformPoint = (
+  { a, b, c, d, e, f }: AffineMatrixType,
+  { x, y }: PositionType,
+): PositionType => ({
+  x: a * x + c * y + e,
+  y: b * x + d * y + f,
+});
+
+const getWrapperOrigin = (
+  contextInstance: ReactZoomPanPinchContext,
+): PositionType => {
+  const rect = contextInstance.wrapperComponent?.getBoundingClientRect();
+  return { x: rect?.left ?? 0, y: rect?.top ?? 0 };
+};
+
+/**
+ * Maps the point relative to the wrapper top-left corner to the content coordinates
+ */
+export const wrapperToContent = (
+  contextInstance: ReactZoomPanPinchContext,
+  point: PositionType,
+): PositionType => {
+  const inverse = invertAffineMatrix(getAffineMatrix(contextInstance));
+  return transformPoint(inverse, point);
+};
+
+export const contentToWrapper = (
+  contextInstance: ReactZoomPanPinchContext,
+  point: PositionType,
+): PositionType => transformPoint(getAffineMatrix(contextInstance), point);
+
+/**
+ * Maps the client (viewport) point, eg. from the mouse event, to the content coordinates
+ */
+export const screenToContent = (
+  contextInstance: ReactZoomPanPinchContext,
+  point: PositionType,
+): PositionType => {
+  const origin = getWrapperOrigin(contextInstance);
+  return wrapperToContent(contextInstance, {
+    x: point.x - origin.x,
+    y: point.y - origin.y,
+  });
+};
+
+export const contentToScreen = (
+  contextInstance: ReactZoomPanPinchContext,
+  point: PositionType,
+): PositionType => {
+  const origin = getWrapperOrigin(contextInstance);
+  const { x, y } = contentToWrapper(contextInstance, point);
+  return { x: x + origin.x, y: y + origin.y };
+};
+
+/**
+ * Returns the transformation as DOMMatrix, null when DOMMatrix is not supported, eg. on the server
+ */
+export const getTransformMatrix = (
+  contextInstance: ReactZoomPanPinchContext,
+  inverse = false,
+): DOMMatrix | null => {
+  if (!isDOMMatrixSupported()) return null;
+
+  const matrix = getAffineMatrix(contextInstance);
+  const { a, b, c, d, e, f } = inverse ? invertAffineMatrix(matrix) : matrix;
+
+  return new DOMMatrix([a, b, c, d, e, f]);
+};
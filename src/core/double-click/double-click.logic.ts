@@ -62,7 +62,7 @@ export function handleDoubleClick(
   const { setup, doubleClickStopEventTimer, transformState, contentComponent } =
     contextInstance;
 
-  const { scale } = transformState;
+  const { scale, rotation, scaleX, scaleY } = transformState;
   const { onZoomStart, onZoom } = contextInstance.props;
   const { disabled, mode, step, animationTime, animationType } =
     setup.doubleClick;
@@ -85,7 +85,14 @@ export function handleDoubleClick(
 
   handleCallback(getContext(contextInstance), event, onZoomStart);
 
-  const mousePosition = getMousePosition(event, contentComponent, scale);
+  const mousePosition = getMousePosition(
+    event,
+    contentComponent,
+    scale,
+    rotation,
+    scaleX,
+    scaleY,
+  );
   const targetState = handleZoomToPoint(
     contextInstance,
     newScale,
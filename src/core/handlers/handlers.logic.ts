@@ -1,10 +1,23 @@
 import { handleZoomToPoint } from "core/zoom/zoom.logic";
-import { ReactZoomPanPinchContext } from "../../models";
+import {
+  AnimationResultType,
+  AnimationTypeOption,
+  ReactZoomPanPinchContext,
+  RectType,
+  ZoomToElementOptionsType,
+} from "../../models";
 import { getCenterPosition } from "../../utils";
-import { animations } from "../animations/animations.constants";
-import { animate, handleCancelAnimation } from "../animations/animations.utils";
+import {
+  animate,
+  handleAnimationResult,
+  handleCancelAnimation,
+} from "../animations/animations.utils";
+import { canMoveInHistory, handleHistoryMove } from "../history/history.logic";
 import {
   calculateZoomToNode,
+  calculateZoomToRect,
+  getNodeRect,
+  getUnionRect,
   handleZoomToViewCenter,
   resetTransformations,
 } from "./handlers.utils";
@@ -14,32 +27,48 @@ export const zoomIn =
   (
     step = 0.5,
     animationTime = 300,
-    animationType: keyof typeof animations = "easeOut",
-  ): void => {
-    handleZoomToViewCenter(
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
       contextInstance,
-      1,
-      step,
-      animationTime,
-      animationType,
+      () => {
+        handleCancelAnimation(contextInstance);
+
+        handleZoomToViewCenter(
+          contextInstance,
+          1,
+          step,
+          animationTime,
+          animationType,
+        );
+      },
+      signal,
     );
-  };
 
 export const zoomOut =
   (contextInstance: ReactZoomPanPinchContext) =>
   (
     step = 0.5,
     animationTime = 300,
-    animationType: keyof typeof animations = "easeOut",
-  ): void => {
-    handleZoomToViewCenter(
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
       contextInstance,
-      -1,
-      step,
-      animationTime,
-      animationType,
+      () => {
+        handleCancelAnimation(contextInstance);
+
+        handleZoomToViewCenter(
+          contextInstance,
+          -1,
+          step,
+          animationTime,
+          animationType,
+        );
+      },
+      signal,
     );
-  };
 
 export const setTransform =
   (contextInstance: ReactZoomPanPinchContext) =>
@@ -48,72 +77,179 @@ export const setTransform =
     newPositionY: number,
     newScale: number,
     animationTime = 300,
-    animationType: keyof typeof animations = "easeOut",
-  ): void => {
-    const { positionX, positionY, scale } = contextInstance.transformState;
-    const { wrapperComponent, contentComponent } = contextInstance;
-    const { disabled } = contextInstance.setup;
+    animationType: AnimationTypeOption = "easeOut",
+    newRotation?: number,
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
+
+        const { positionX, positionY, scale, rotation } =
+          contextInstance.transformState;
+        const { wrapperComponent, contentComponent } = contextInstance;
+        const { disabled } = contextInstance.setup;
 
-    if (disabled || !wrapperComponent || !contentComponent) return;
+        if (disabled || !wrapperComponent || !contentComponent) return;
 
-    const targetState = {
-      positionX: Number.isNaN(newPositionX) ? positionX : newPositionX,
-      positionY: Number.isNaN(newPositionY) ? positionY : newPositionY,
-      scale: Number.isNaN(newScale) ? scale : newScale,
-    };
+        const targetState = {
+          positionX: Number.isNaN(newPositionX) ? positionX : newPositionX,
+          positionY: Number.isNaN(newPositionY) ? positionY : newPositionY,
+          scale: Number.isNaN(newScale) ? scale : newScale,
+          rotation:
+            newRotation === undefined || Number.isNaN(newRotation)
+              ? rotation
+              : newRotation,
+        };
 
-    animate(contextInstance, targetState, animationTime, animationType);
-  };
+        animate(contextInstance, targetState, animationTime, animationType);
+      },
+      signal,
+    );
 
 export const resetTransform =
   (contextInstance: ReactZoomPanPinchContext) =>
   (
     animationTime = 200,
-    animationType: keyof typeof animations = "easeOut",
-  ): void => {
-    resetTransformations(contextInstance, animationTime, animationType);
-  };
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
+
+        resetTransformations(contextInstance, animationTime, animationType);
+      },
+      signal,
+    );
 
 export const centerView =
   (contextInstance: ReactZoomPanPinchContext) =>
   (
     scale?: number,
     animationTime = 200,
-    animationType: keyof typeof animations = "easeOut",
-  ): void => {
-    const { transformState, wrapperComponent, contentComponent } =
-      contextInstance;
-    if (wrapperComponent && contentComponent) {
-      const targetState = getCenterPosition(
-        scale || transformState.scale,
-        wrapperComponent,
-        contentComponent,
-      );
-
-      animate(contextInstance, targetState, animationTime, animationType);
-    }
-  };
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
+
+        const { transformState, wrapperComponent, contentComponent } =
+          contextInstance;
+        if (wrapperComponent && contentComponent) {
+          const targetState = getCenterPosition(
+            scale || transformState.scale,
+            wrapperComponent,
+            contentComponent,
+            transformState.rotation,
+            transformState.scaleX,
+            transformState.scaleY,
+            contextInstance.setup.viewportInsets,
+          );
+
+          animate(contextInstance, targetState, animationTime, animationType);
+        }
+      },
+      signal,
+    );
 
 export const zoomToElement =
   (contextInstance: ReactZoomPanPinchContext) =>
   (
     node: HTMLElement | string,
-    scale?: number,
+    scale?: number | ZoomToElementOptionsType,
     animationTime = 600,
-    animationType: keyof typeof animations = "easeOut",
-  ): void => {
-    handleCancelAnimation(contextInstance);
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
 
-    const { wrapperComponent } = contextInstance;
+        const { wrapperComponent } = contextInstance;
 
-    const target: HTMLElement | null =
-      typeof node === "string" ? document.getElementById(node) : node;
+        const target: HTMLElement | null =
+          typeof node === "string" ? document.getElementById(node) : node;
 
-    if (wrapperComponent && target && wrapperComponent.contains(target)) {
-      const targetState = calculateZoomToNode(contextInstance, target, scale);
-      animate(contextInstance, targetState, animationTime, animationType);
-    }
-  };
+        if (wrapperComponent && target && wrapperComponent.contains(target)) {
+          const targetState = calculateZoomToNode(
+            contextInstance,
+            target,
+            typeof scale === "number" ? { scale } : scale,
+          );
+          animate(contextInstance, targetState, animationTime, animationType);
+        }
+      },
+      signal,
+    );
+
+export const zoomToRect =
+  (contextInstance: ReactZoomPanPinchContext) =>
+  (
+    rect: RectType,
+    options?: ZoomToElementOptionsType,
+    animationTime = 600,
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
+
+        if (!rect.width || !rect.height) return;
+
+        const targetState = calculateZoomToRect(contextInstance, rect, options);
+        animate(contextInstance, targetState, animationTime, animationType);
+      },
+      signal,
+    );
+
+export const zoomToElements =
+  (contextInstance: ReactZoomPanPinchContext) =>
+  (
+    nodes: (HTMLElement | string)[],
+    options?: ZoomToElementOptionsType,
+    animationTime = 600,
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
+
+        const { wrapperComponent } = contextInstance;
+
+        if (!wrapperComponent) return;
+
+        const rects = nodes.reduce<RectType[]>((acc, node) => {
+          const target: HTMLElement | null =
+            typeof node === "string" ? document.getElementById(node) : node;
+
+          if (!target || !wrapperComponent.contains(target)) return acc;
+
+          const rect = getNodeRect(contextInstance, target);
+          return rect ? [...acc, rect] : acc;
+        }, []);
+        const unionRect = getUnionRect(rects);
+
+        if (unionRect) {
+          const targetState = calculateZoomToRect(
+            contextInstance,
+            unionRect,
+            options,
+          );
+          animate(contextInstance, targetState, animationTime, animationType);
+        }
+      },
+      signal,
+    );
 
 export const zoomToPoint =
   (contextInstance: ReactZoomPanPinchContext) =>
@@ -122,10 +258,56 @@ export const zoomToPoint =
     y: number,
     scale: number,
     animationTime = 600,
-    animationType: keyof typeof animations = "easeOut",
-  ): void => {
-    handleCancelAnimation(contextInstance);
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
+
+        const targetState = handleZoomToPoint(contextInstance, scale, x, y);
+        animate(contextInstance, targetState, animationTime, animationType);
+      },
+      signal,
+    );
+
+export const goBack =
+  (contextInstance: ReactZoomPanPinchContext) =>
+  (
+    animationTime = 300,
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
+        handleHistoryMove(contextInstance, -1, animationTime, animationType);
+      },
+      signal,
+    );
+
+export const goForward =
+  (contextInstance: ReactZoomPanPinchContext) =>
+  (
+    animationTime = 300,
+    animationType: AnimationTypeOption = "easeOut",
+    signal?: AbortSignal,
+  ): Promise<AnimationResultType> =>
+    handleAnimationResult(
+      contextInstance,
+      () => {
+        handleCancelAnimation(contextInstance);
+        handleHistoryMove(contextInstance, 1, animationTime, animationType);
+      },
+      signal,
+    );
+
+export const canGoBack =
+  (contextInstance: ReactZoomPanPinchContext) => (): boolean =>
+    canMoveInHistory(contextInstance, -1);
 
-    const targetState = handleZoomToPoint(contextInstance, scale, x, y);
-    animate(contextInstance, targetState, animationTime, animationType);
-  };
+export const canGoForward =
+  (contextInstance: ReactZoomPanPinchContext) => (): boolean =>
+    canMoveInHistory(contextInstance, 1);
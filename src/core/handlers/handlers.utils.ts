@@ -1,10 +1,23 @@
-import { ReactZoomPanPinchContext, ReactZoomPanPinchState } from "../../models";
-import { animations } from "../animations/animations.constants";
+import {
+  AnimationTypeOption,
+  ReactZoomPanPinchContext,
+  RectType,
+  StateType,
+  ZoomToElementOptionsType,
+  ZoomToElementPaddingType,
+} from "../../models";
 import { handleZoomToPoint } from "../zoom/zoom.logic";
 import { animate } from "../animations/animations.utils";
 import { createState } from "../../utils/state.utils";
-import { checkZoomBounds } from "../zoom/zoom.utils";
+import { checkZoomBounds, getNextZoomLevel } from "../zoom/zoom.utils";
 import { roundNumber } from "../../utils";
+import {
+  getBoundingRect,
+  getViewportArea,
+  getViewportCenter,
+} from "../viewport/viewport.utils";
+import { screenToContent } from "../coordinates/coordinates.utils";
+import { getRotatedSize, rotatePoint } from "../rotation/rotation.utils";
 import {
   calculateBounds,
   getMouseBoundedPosition,
@@ -17,13 +30,17 @@ export const handleCalculateButtonZoom = (
 ): number => {
   const { scale } = contextInstance.transformState;
   const { wrapperComponent, setup } = contextInstance;
-  const { maxScale, minScale, zoomAnimation, smooth } = setup;
+  const { maxScale, minScale, zoomAnimation, smooth, zoomLevels } = setup;
   const { size } = zoomAnimation;
 
   if (!wrapperComponent) {
     throw new Error("Wrapper is not mounted");
   }
 
+  if (zoomLevels.length) {
+    return getNextZoomLevel(zoomLevels, scale, delta, minScale, maxScale);
+  }
+
   const targetScale = smooth
     ? scale * Math.exp(delta * step)
     : scale + delta * step;
@@ -43,25 +60,19 @@ export function handleZoomToViewCenter(
   delta: number,
   step: number,
   animationTime: number,
-  animationType: keyof typeof animations,
+  animationType: AnimationTypeOption,
 ): void {
-  const { wrapperComponent } = contextInstance;
-  const { scale, positionX, positionY } = contextInstance.transformState;
+  const center = getViewportCenter(contextInstance);
 
-  if (!wrapperComponent) return console.error("No WrapperComponent found");
-
-  const wrapperWidth = wrapperComponent.offsetWidth;
-  const wrapperHeight = wrapperComponent.offsetHeight;
-  const mouseX = (wrapperWidth / 2 - positionX) / scale;
-  const mouseY = (wrapperHeight / 2 - positionY) / scale;
+  if (!center) return console.error("No WrapperComponent found");
 
   const newScale = handleCalculateButtonZoom(contextInstance, delta, step);
 
   const targetState = handleZoomToPoint(
     contextInstance,
     newScale,
-    mouseX,
-    mouseY,
+    center.x,
+    center.y,
   );
 
   if (!targetState) {
@@ -76,19 +87,27 @@ export function handleZoomToViewCenter(
 export function resetTransformations(
   contextInstance: ReactZoomPanPinchContext,
   animationTime: number,
-  animationType: keyof typeof animations,
+  animationType: AnimationTypeOption,
   onResetTransformation?: () => void,
 ): void {
   const { setup, wrapperComponent } = contextInstance;
   const { limitToBounds } = setup;
-  const initialTransformation = createState(contextInstance.props);
-  const { scale, positionX, positionY } = contextInstance.transformState;
+  // Controlled transform is the current value, reset goes back to the initial props
+  const initialTransformation = createState({
+    ...contextInstance.props,
+    transform: undefined,
+  });
+  const { scale, positionX, positionY, rotation, scaleX, scaleY } =
+    contextInstance.transformState;
 
   if (!wrapperComponent) return;
 
   const newBounds = calculateBounds(
     contextInstance,
     initialTransformation.scale,
+    initialTransformation.rotation,
+    initialTransformation.scaleX,
+    initialTransformation.scaleY,
   );
 
   const boundedPositions = getMouseBoundedPosition(
@@ -105,12 +124,18 @@ export function resetTransformations(
     scale: initialTransformation.scale,
     positionX: boundedPositions.x,
     positionY: boundedPositions.y,
+    rotation: initialTransformation.rotation,
+    scaleX: initialTransformation.scaleX,
+    scaleY: initialTransformation.scaleY,
   };
 
   if (
     scale === initialTransformation.scale &&
     positionX === initialTransformation.positionX &&
-    positionY === initialTransformation.positionY
+    positionY === initialTransformation.positionY &&
+    rotation === initialTransformation.rotation &&
+    scaleX === initialTransformation.scaleX &&
+    scaleY === initialTransformation.scaleY
   ) {
     return;
   }
@@ -119,67 +144,195 @@ export function resetTransformations(
   animate(contextInstance, newState, animationTime, animationType);
 }
 
-export function getOffset(
-  element: HTMLElement,
-  wrapper: HTMLElement,
-  content: HTMLElement,
-  state: ReactZoomPanPinchState,
-) {
-  const offset = element.getBoundingClientRect();
-  const wrapperOffset = wrapper.getBoundingClientRect();
-  const contentOffset = content.getBoundingClientRect();
+const getElementPadding = (
+  padding: ZoomToElementPaddingType,
+  size: number,
+): number => {
+  if (typeof padding === "number") return padding;
+  return (parseFloat(padding) * size) / 100;
+};
 
-  const xOff = wrapperOffset.x * state.scale;
-  const yOff = wrapperOffset.y * state.scale;
+const getFitScale = (
+  fit: NonNullable<ZoomToElementOptionsType["fit"]>,
+  scaleX: number,
+  scaleY: number,
+): number => {
+  if (fit === "cover") return Math.max(scaleX, scaleY);
+  if (fit === "width") return scaleX;
+  if (fit === "height") return scaleY;
+  return Math.min(scaleX, scaleY);
+};
 
-  return {
-    x: (offset.x - contentOffset.x + xOff) / state.scale,
-    y: (offset.y - contentOffset.y + yOff) / state.scale,
-  };
-}
+/**
+ * Moves the position by the smallest distance which brings the node into the area,
+ * the node bigger than the area is aligned to its start
+ */
+const getNearestPosition = (
+  position: number,
+  nodeStart: number,
+  nodeSize: number,
+  areaStart: number,
+  areaSize: number,
+): number => {
+  const start = position + nodeStart;
+  const end = start + nodeSize;
 
-export function calculateZoomToNode(
+  if (start < areaStart || nodeSize > areaSize) {
+    return position + areaStart - start;
+  }
+  if (end > areaStart + areaSize) {
+    return position + areaStart + areaSize - end;
+  }
+  return position;
+};
+
+/**
+ * Returns the node position and size in the content coordinates.
+ * The client rect of the node on the rotated content is its rotated bounding box,
+ * so the node is mapped by its center and its layout size when it has one.
+ */
+export function getNodeRect(
   contextInstance: ReactZoomPanPinchContext,
   node: HTMLElement,
-  customZoom?: number,
-): { positionX: number; positionY: number; scale: number } {
+): RectType | null {
+  const { wrapperComponent, contentComponent, transformState } =
+    contextInstance;
+  if (!wrapperComponent || !contentComponent) return null;
+
+  const { left, top, width, height } = node.getBoundingClientRect();
+  const { offsetWidth, offsetHeight } = node;
+
+  if (transformState.rotation && offsetWidth && offsetHeight) {
+    const center = screenToContent(contextInstance, {
+      x: left + width / 2,
+      y: top + height / 2,
+    });
+
+    return {
+      x: center.x - offsetWidth / 2,
+      y: center.y - offsetHeight / 2,
+      width: offsetWidth,
+      height: offsetHeight,
+    };
+  }
+
+  const corners = [
+    { x: left, y: top },
+    { x: left + width, y: top },
+    { x: left, y: top + height },
+    { x: left + width, y: top + height },
+  ].map((corner) => screenToContent(contextInstance, corner));
+
+  return getBoundingRect(corners);
+}
+
+/**
+ * Returns the bounding box of the rects, null for no rects
+ */
+export function getUnionRect(rects: RectType[]): RectType | null {
+  if (!rects.length) return null;
+
+  const left = Math.min(...rects.map(({ x }) => x));
+  const top = Math.min(...rects.map(({ y }) => y));
+  const right = Math.max(...rects.map(({ x, width }) => x + width));
+  const bottom = Math.max(...rects.map(({ y, height }) => y + height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function calculateZoomToRect(
+  contextInstance: ReactZoomPanPinchContext,
+  rect: RectType,
+  options: ZoomToElementOptionsType = {},
+): StateType {
   const { wrapperComponent, contentComponent, transformState } =
     contextInstance;
-  const { limitToBounds, minScale, maxScale } = contextInstance.setup;
+  const { limitToBounds, minScale, viewportInsets } = contextInstance.setup;
+  const {
+    padding = 0,
+    align = "center",
+    fit = "contain",
+    maxScale = contextInstance.setup.maxScale,
+    nearest = false,
+  } = options;
   if (!wrapperComponent || !contentComponent) return transformState;
 
-  const wrapperRect = wrapperComponent.getBoundingClientRect();
-  const nodeRect = node.getBoundingClientRect();
-  const nodeOffset = getOffset(
-    node,
-    wrapperComponent,
-    contentComponent,
-    transformState,
-  );
+  // The rect is framed by its bounding box on the rotated content
+  const { rotation } = transformState;
+  const origin = rotatePoint(rect.x, rect.y, rotation);
+  const rotatedRect = getRotatedSize(rect.width, rect.height, rotation);
+  const nodeX = origin.x + rotatedRect.offsetX;
+  const nodeY = origin.y + rotatedRect.offsetY;
+  const { width: nodeWidth, height: nodeHeight } = rotatedRect;
 
-  const nodeLeft = nodeOffset.x;
-  const nodeTop = nodeOffset.y;
-  const nodeWidth = nodeRect.width / transformState.scale;
-  const nodeHeight = nodeRect.height / transformState.scale;
+  const viewport = getViewportArea(wrapperComponent, viewportInsets);
+  const paddingX = getElementPadding(padding, viewport.width);
+  const paddingY = getElementPadding(padding, viewport.height);
+  const area = {
+    left: viewport.left + paddingX,
+    top: viewport.top + paddingY,
+    width: Math.max(0, viewport.width - paddingX * 2),
+    height: Math.max(0, viewport.height - paddingY * 2),
+  };
+
+  const { scale, positionX, positionY } = transformState;
+  const axisScaleX = scale * transformState.scaleX;
+  const axisScaleY = scale * transformState.scaleY;
+  const isVisible =
+    positionX + nodeX * axisScaleX >= area.left &&
+    positionY + nodeY * axisScaleY >= area.top &&
+    positionX + (nodeX + nodeWidth) * axisScaleX <= area.left + area.width &&
+    positionY + (nodeY + nodeHeight) * axisScaleY <= area.top + area.height;
 
-  const scaleX = wrapperComponent.offsetWidth / nodeWidth;
-  const scaleY = wrapperComponent.offsetHeight / nodeHeight;
+  if (align === "keep-current-if-visible" && isVisible) return transformState;
 
+  // The minimal scroll keeps the current scales
+  if (nearest) {
+    const bounds = calculateBounds(contextInstance, scale);
+    const { x, y } = getMouseBoundedPosition(
+      getNearestPosition(
+        positionX,
+        nodeX * axisScaleX,
+        nodeWidth * axisScaleX,
+        area.left,
+        area.width,
+      ),
+      getNearestPosition(
+        positionY,
+        nodeY * axisScaleY,
+        nodeHeight * axisScaleY,
+        area.top,
+        area.height,
+      ),
+      bounds,
+      limitToBounds,
+      0,
+      0,
+      wrapperComponent,
+    );
+
+    return { ...transformState, positionX: x, positionY: y };
+  }
+
+  // The node is zoomed with the uniform scale, the axis scales are reset
   const newScale = checkZoomBounds(
-    customZoom || Math.min(scaleX, scaleY),
+    options.scale ||
+      getFitScale(fit, area.width / nodeWidth, area.height / nodeHeight),
     minScale,
     maxScale,
     0,
     false,
   );
 
-  const offsetX = (wrapperRect.width - nodeWidth * newScale) / 2;
-  const offsetY = (wrapperRect.height - nodeHeight * newScale) / 2;
+  const offsetX =
+    align === "top-left" ? 0 : (area.width - nodeWidth * newScale) / 2;
+  const offsetY =
+    align === "top-left" ? 0 : (area.height - nodeHeight * newScale) / 2;
 
-  const newPositionX = (wrapperRect.left - nodeLeft) * newScale + offsetX;
-  const newPositionY = (wrapperRect.top - nodeTop) * newScale + offsetY;
+  const newPositionX = area.left + offsetX - nodeX * newScale;
+  const newPositionY = area.top + offsetY - nodeY * newScale;
 
-  const bounds = calculateBounds(contextInstance, newScale);
+  const bounds = calculateBounds(contextInstance, newScale, undefined, 1, 1);
 
   const { x, y } = getMouseBoundedPosition(
     newPositionX,
@@ -191,5 +344,24 @@ export function calculateZoomToNode(
     wrapperComponent,
   );
 
-  return { positionX: x, positionY: y, scale: newScale };
+  return {
+    positionX: x,
+    positionY: y,
+    scale: newScale,
+    rotation,
+    scaleX: 1,
+    scaleY: 1,
+  };
+}
+
+export function calculateZoomToNode(
+  contextInstance: ReactZoomPanPinchContext,
+  node: HTMLElement,
+  options: ZoomToElementOptionsType = {},
+): StateType {
+  const rect = getNodeRect(contextInstance, node);
+
+  if (!rect) return contextInstance.transformState;
+
+  return calculateZoomToRect(contextInstance, rect, options);
 }
@@ -0,0 +1,111 @@
+/* eslint-disable no-param-reassign */
+import {
+  AnimationTypeOption,
+  ReactZoomPanPinchContext,
+  StateType,
+} from "../../models";
+import { animate } from "../animations/animations.utils";
+
+const scaleEpsilon = 0.001;
+const positionEpsilon = 0.5;
+const rotationEpsilon = 0.01;
+
+const getHistoryState = (
+  contextInstance: ReactZoomPanPinchContext,
+): StateType => {
+  const { scale, positionX, positionY, rotation, scaleX, scaleY } =
+    contextInstance.transformState;
+  return { scale, positionX, positionY, rotation, scaleX, scaleY };
+};
+
+const isSameHistoryState = (
+  state: StateType,
+  entry: StateType | undefined,
+): boolean => {
+  if (!entry) return false;
+
+  return (
+    Math.abs(state.scale - entry.scale) < scaleEpsilon &&
+    Math.abs(state.positionX - entry.positionX) < positionEpsilon &&
+    Math.abs(state.positionY - entry.positionY) < positionEpsilon &&
+    Math.abs((state.rotation ?? 0) - (entry.rotation ?? 0)) < rotationEpsilon &&
+    Math.abs((state.scaleX ?? 1) - (entry.scaleX ?? 1)) < scaleEpsilon &&
+    Math.abs((state.scaleY ?? 1) - (entry.scaleY ?? 1)) < scaleEpsilon
+  );
+};
+
+/**
+ * Starts the history from the current transformation
+ */
+export const handleHistoryReset = (
+  contextInstance: ReactZoomPanPinchContext,
+): void => {
+  contextInstance.historyEntries = [getHistoryState(contextInstance)];
+  contextInstance.historyIndex = 0;
+};
+
+/**
+ * Updates the current entry without adding the new one, eg. after the resize
+ */
+export const handleHistoryReplace = (
+  contextInstance: ReactZoomPanPinchContext,
+): void => {
+  const { historyEntries, historyIndex } = contextInstance;
+
+  if (historyIndex < 0) return handleHistoryReset(contextInstance);
+
+  historyEntries[historyIndex] = getHistoryState(contextInstance);
+};
+
+/**
+ * Saves the settled transformation. It is skipped during the gestures and animations,
+ * they record their final state when they finish.
+ */
+export const handleHistoryRecord = (
+  contextInstance: ReactZoomPanPinchContext,
+): void => {
+  const { setup, isHistoryPaused, isPanning, pinchStartScale, animation } =
+    contextInstance;
+  const { disabled, limit } = setup.history;
+
+  if (disabled || isHistoryPaused || !contextInstance.isInitialized) return;
+  if (isPanning || pinchStartScale !== null || animation) return;
+
+  const state = getHistoryState(contextInstance);
+  const { historyEntries, historyIndex } = contextInstance;
+
+  if (isSameHistoryState(state, historyEntries[historyIndex])) return;
+
+  const entries = [...historyEntries.slice(0, historyIndex + 1), state];
+  const newEntries = entries.slice(Math.max(0, entries.length - limit));
+
+  contextInstance.historyEntries = newEntries;
+  contextInstance.historyIndex = newEntries.length - 1;
+};
+
+export const canMoveInHistory = (
+  contextInstance: ReactZoomPanPinchContext,
+  step: number,
+): boolean => {
+  const { historyEntries, historyIndex, setup } = contextInstance;
+  const newIndex = historyIndex + step;
+
+  return (
+    !setup.history.disabled && newIndex >= 0 && newIndex < historyEntries.length
+  );
+};
+
+export const handleHistoryMove = (
+  contextInstance: ReactZoomPanPinchContext,
+  step: number,
+  animationTime: number,
+  animationType: AnimationTypeOption,
+): void => {
+  if (!canMoveInHistory(contextInstance, step)) return;
+
+  contextInstance.historyIndex += step;
+  const targetState =
+    contextInstance.historyEntries[contextInstance.historyIndex];
+
+  animate(contextInstance, targetState, animationTime, animationType);
+};
@@ -2,11 +2,15 @@ import {
   AnimationType,
   BoundsType,
   LibrarySetup,
+  PointerPositionType,
   PositionType,
   ReactZoomPanPinchProps,
   ReactZoomPanPinchRef,
   ReactZoomPanPinchState,
+  RectType,
+  StateType,
   VelocityType,
+  ZoomAxisType,
 } from "../models";
 import {
   createSetup,
@@ -28,6 +32,7 @@ import {
   handlePanning,
   handlePanningEnd,
   handlePanningStart,
+  handleWheelPanningStop,
 } from "./pan/panning.logic";
 import {
   getPaddingValue,
@@ -47,6 +52,29 @@ import {
   handleWheelZoom,
 } from "./wheel/wheel.logic";
 import { isWheelAllowed } from "./wheel/wheel.utils";
+import { handleKeyboard } from "./keyboard/keyboard.logic";
+import { isKeyboardAllowed } from "./keyboard/keyboard.utils";
+import {
+  handleHistoryReplace,
+  handleHistoryReset,
+} from "./history/history.logic";
+import { handleTransformSettle } from "./settle/settle.logic";
+import {
+  getPointerPosition,
+  isPointerButtonAllowed,
+} from "./pointer/pointer.utils";
+import {
+  contentToScreen,
+  contentToWrapper,
+  getTransformMatrix,
+  screenToContent,
+  wrapperToContent,
+} from "./coordinates/coordinates.utils";
+import {
+  getVisibleRect,
+  isElementVisible,
+  isRectVisible,
+} from "./viewport/viewport.utils";
 
 type StartCoordsType = { x: number; y: number } | null;
 
@@ -64,6 +92,8 @@ export class ZoomPanPinch {
   public onChangeCallbacks: Set<(ctx: ReactZoomPanPinchRef) => void> =
     new Set();
   public onInitCallbacks: Set<(ctx: ReactZoomPanPinchRef) => void> = new Set();
+  public onSettleCallbacks: Set<(ctx: ReactZoomPanPinchRef) => void> =
+    new Set();
 
   // Components
   public wrapperComponent: HTMLDivElement | null = null;
@@ -75,6 +105,8 @@ export class ZoomPanPinch {
   public previousWheelEvent: WheelEvent | null = null;
   public wheelStopEventTimer: ReturnType<typeof setTimeout> | null = null;
   public wheelAnimationTimer: ReturnType<typeof setTimeout> | null = null;
+  // unresisted position of the elastic wheel panning
+  public wheelElasticPosition: null | PositionType = null;
   // panning helpers
   public isPanning = false;
   public isWheelPanning = false;
@@ -85,7 +117,12 @@ export class ZoomPanPinch {
   public lastDistance: null | number = null;
   public pinchStartDistance: null | number = null;
   public pinchStartScale: null | number = null;
+  public pinchAxis: null | ZoomAxisType = null;
+  public pinchStartAngle: null | number = null;
+  public pinchStartRotation: null | number = null;
   public pinchMidpoint: null | PositionType = null;
+  // unresisted position of the elastic pinch
+  public pinchElasticPosition: null | PositionType = null;
   // double click helpers
   public doubleClickStopEventTimer: ReturnType<typeof setTimeout> | null = null;
   // velocity helpers
@@ -95,10 +132,21 @@ export class ZoomPanPinch {
   // animations helpers
   public animate = false;
   public animation: AnimationType | null = null;
+  public animationEndCallback: ((completed: boolean) => void) | null = null;
+  // last state passed to onTransformChange, not committed yet in the controlled mode
+  public proposedState: ReactZoomPanPinchState | null = null;
   public maxBounds: BoundsType | null = null;
+  public springVelocity: Required<StateType> | null = null;
+  public springTime: number | null = null;
+  // history helpers
+  public historyEntries: StateType[] = [];
+  public historyIndex = -1;
+  public isHistoryPaused = false;
   // key press
   public pressedKeys: { [key: string]: boolean } = {};
-  public activeTouches: Touch[] = [];
+  public activeTouches: PointerPositionType[] = [];
+  // touch-action of the wrapper replaced in the pointer input mode
+  public previousTouchAction: string | null = null;
 
   // Flagged if browser is capable of returning multiple event.touches
   private _eventTouchesWorking = false;
@@ -118,9 +166,21 @@ export class ZoomPanPinch {
   };
 
   update = (newProps: ReactZoomPanPinchProps) => {
+    const { inputMode } = this.setup;
+
     this.props = newProps;
-    handleCalculateBounds(this, this.transformState.scale);
     this.setup = createSetup(newProps);
+    handleCalculateBounds(this, this.transformState.scale);
+
+    // Listeners and the wrapper touch-action depend on the input mode
+    if (this.wrapperComponent && this.setup.inputMode !== inputMode) {
+      this.removeWindowEventListeners();
+      this.cleanupWrapperEvents(this.wrapperComponent);
+      this.handleInitializeWrapperEvents(this.wrapperComponent);
+      this.initializeWindowEvents();
+    }
+
+    this.syncTransform();
   };
 
   initializeWindowEvents = (): void => {
@@ -132,16 +192,34 @@ export class ZoomPanPinch {
       this.onWheelPanning,
       passive,
     );
-    // Panning on window to allow panning when mouse is out of component wrapper
-    currentWindow?.addEventListener("mousedown", this.onPanningStart, passive);
-    currentWindow?.addEventListener("mousemove", this.onPanning, passive);
-    currentWindow?.addEventListener("mouseup", this.onPanningStop, passive);
-    currentDocument?.addEventListener("mouseleave", this.clearPanning, passive);
+    // Pointer capture keeps the pointer events on the wrapper, even out of its area
+    if (this.setup.inputMode !== "pointer") {
+      // Panning on window to allow panning when mouse is out of component wrapper
+      currentWindow?.addEventListener(
+        "mousedown",
+        this.onPanningStart,
+        passive,
+      );
+      currentWindow?.addEventListener("mousemove", this.onPanning, passive);
+      currentWindow?.addEventListener("mouseup", this.onPanningStop, passive);
+      currentDocument?.addEventListener(
+        "mouseleave",
+        this.clearPanning,
+        passive,
+      );
+    }
     currentWindow?.addEventListener("keyup", this.setKeyUnPressed, passive);
     currentWindow?.addEventListener("keydown", this.setKeyPressed, passive);
   };
 
   cleanupWindowEvents = (): void => {
+    this.removeWindowEventListeners();
+
+    handleCancelAnimation(this);
+    this.observer?.disconnect();
+  };
+
+  removeWindowEventListeners = (): void => {
     const passive = makePassiveEventOption();
     const currentDocument = this.wrapperComponent?.ownerDocument;
     const currentWindow = currentDocument?.defaultView;
@@ -160,9 +238,6 @@ export class ZoomPanPinch {
     currentWindow?.removeEventListener("keyup", this.setKeyUnPressed, passive);
     currentWindow?.removeEventListener("keydown", this.setKeyPressed, passive);
     document.removeEventListener("mouseleave", this.clearPanning, passive);
-
-    handleCancelAnimation(this);
-    this.observer?.disconnect();
   };
 
   handleInitializeWrapperEvents = (wrapper: HTMLDivElement): void => {
@@ -171,12 +246,56 @@ export class ZoomPanPinch {
 
     wrapper.addEventListener("wheel", this.onWheelZoom, passive);
     wrapper.addEventListener("dblclick", this.onDoubleClick, passive);
+    wrapper.addEventListener("keydown", this.onKeyboard, passive);
+
+    if (this.setup.inputMode === "pointer") {
+      // Browser gestures would cancel the pointers
+      if (this.previousTouchAction === null) {
+        this.previousTouchAction =
+          wrapper.style.getPropertyValue("touch-action");
+      }
+      wrapper.style.setProperty("touch-action", "none");
+      wrapper.addEventListener("pointerdown", this.onPointerDown, passive);
+      wrapper.addEventListener("pointermove", this.onPointerMove, passive);
+      wrapper.addEventListener("pointerup", this.onPointerUp, passive);
+      wrapper.addEventListener("pointercancel", this.onPointerUp, passive);
+      return;
+    }
+
     wrapper.addEventListener("touchstart", this.onTouchPanningStart, passive);
     wrapper.addEventListener("touchmove", this.onTouchPanning, passive);
     wrapper.addEventListener("touchend", this.onTouchPanningStop, passive);
-    wrapper.addEventListener("touchcancel", (e) => {
-      this.updateActiveTouches(e.touches, e.changedTouches, "stop");
-    });
+    wrapper.addEventListener("touchcancel", this.onTouchCancel, passive);
+  };
+
+  cleanupWrapperEvents = (wrapper: HTMLDivElement): void => {
+    const passive = makePassiveEventOption();
+
+    wrapper.removeEventListener("wheel", this.onWheelZoom, passive);
+    wrapper.removeEventListener("wheel", this.onWheelPanning, passive);
+    wrapper.removeEventListener("dblclick", this.onDoubleClick, passive);
+    wrapper.removeEventListener(
+      "touchstart",
+      this.onTouchPanningStart,
+      passive,
+    );
+    wrapper.removeEventListener("touchmove", this.onTouchPanning, passive);
+    wrapper.removeEventListener("touchend", this.onTouchPanningStop, passive);
+    wrapper.removeEventListener("touchcancel", this.onTouchCancel, passive);
+    wrapper.removeEventListener("keydown", this.onKeyboard, passive);
+    wrapper.removeEventListener("pointerdown", this.onPointerDown, passive);
+    wrapper.removeEventListener("pointermove", this.onPointerMove, passive);
+    wrapper.removeEventListener("pointerup", this.onPointerUp, passive);
+    wrapper.removeEventListener("pointercancel", this.onPointerUp, passive);
+
+    if (this.previousTouchAction !== null) {
+      if (this.previousTouchAction) {
+        wrapper.style.setProperty("touch-action", this.previousTouchAction);
+      } else {
+        wrapper.style.removeProperty("touch-action");
+      }
+      this.previousTouchAction = null;
+    }
   };
 
   handleInitialize = (
@@ -212,12 +331,26 @@ export class ZoomPanPinch {
           if (currentWidth > 0 || currentHeight > 0) {
             isCentered = true;
 
-            this.setCenter();
+            // Keep the transformation restored in the meantime, eg. from the url
+            const { scale, positionX, positionY } = createState(this.props);
+            const isTransformed =
+              scale !== this.transformState.scale ||
+              positionX !== this.transformState.positionX ||
+              positionY !== this.transformState.positionY;
+
+            if (!isTransformed) {
+              this.setCenter();
+              handleHistoryReset(this);
+            }
           }
         } else {
           handleCancelAnimation(this);
           handleCalculateBounds(this, this.transformState.scale);
+          // Layout changes are not the history steps
+          this.isHistoryPaused = true;
           handleAlignToBounds(this, 0);
+          this.isHistoryPaused = false;
+          handleHistoryReplace(this);
         }
       }
     });
@@ -268,12 +401,21 @@ export class ZoomPanPinch {
     event.stopPropagation();
 
     const { positionX, positionY } = this.transformState;
-    const mouseX = positionX - event.deltaX;
-    const mouseY = positionY - event.deltaY;
+    const { sizeX, sizeY, elastic } = this.setup.alignmentAnimation;
+    // The elastic position is already resisted, the wheel moves the unresisted one
+    const { x: startX, y: startY } = (elastic && this.wheelElasticPosition) || {
+      x: positionX,
+      y: positionY,
+    };
+    const mouseX = startX - event.deltaX;
+    const mouseY = startY - event.deltaY;
     const newPositionX = panning.lockAxisX ? positionX : mouseX;
     const newPositionY = panning.lockAxisY ? positionY : mouseY;
 
-    const { sizeX, sizeY } = this.setup.alignmentAnimation;
+    if (elastic) {
+      this.wheelElasticPosition = { x: newPositionX, y: newPositionY };
+    }
+
     const paddingValueX = getPaddingValue(this, sizeX);
     const paddingValueY = getPaddingValue(this, sizeY);
 
@@ -286,6 +428,7 @@ export class ZoomPanPinch {
       paddingValueX,
       paddingValueY,
     );
+    handleWheelPanningStop(this);
   };
 
   onPanningStart = (event: MouseEvent): void => {
@@ -336,6 +479,7 @@ export class ZoomPanPinch {
     if (this.isPanning) {
       handlePanningEnd(this);
       handleCallback(getContext(this), event, onPanningStop);
+      handleTransformSettle(this);
     }
   };
 
@@ -343,7 +487,7 @@ export class ZoomPanPinch {
   // Pinch
   /// ///////
 
-  onPinchStart = (event: TouchEvent): void => {
+  onPinchStart = (event: TouchEvent | PointerEvent): void => {
     const { disabled } = this.setup;
     const { onPinchingStart, onZoomStart } = this.props;
 
@@ -358,7 +502,7 @@ export class ZoomPanPinch {
     handleCallback(getContext(this), event, onZoomStart);
   };
 
-  onPinch = (event: TouchEvent): void => {
+  onPinch = (event: TouchEvent | PointerEvent): void => {
     const { disabled } = this.setup;
     const { onPinching, onZoom } = this.props;
 
@@ -375,13 +519,14 @@ export class ZoomPanPinch {
     handleCallback(getContext(this), event, onZoom);
   };
 
-  onPinchStop = (event: TouchEvent): void => {
+  onPinchStop = (event: TouchEvent | PointerEvent): void => {
     const { onPinchingStop, onZoomStop } = this.props;
 
     if (this.pinchStartScale) {
       handlePinchStop(this);
       handleCallback(getContext(this), event, onPinchingStop);
       handleCallback(getContext(this), event, onZoomStop);
+      handleTransformSettle(this);
     }
   };
 
@@ -452,11 +597,11 @@ export class ZoomPanPinch {
 
     const isDoubleTap =
       this.lastTouch &&
-      +new Date() - this.lastTouch < 200 &&
+      Date.now() - this.lastTouch < 200 &&
       this.activeTouches.length === 1;
 
     if (!isDoubleTap) {
-      this.lastTouch = +new Date();
+      this.lastTouch = Date.now();
 
       handleCancelAnimation(this);
 
@@ -505,6 +650,118 @@ export class ZoomPanPinch {
     this.onPinchStop(event);
   };
 
+  onTouchCancel = (event: TouchEvent): void => {
+    this.updateActiveTouches(event.touches, event.changedTouches, "stop");
+  };
+
+  /// ///////
+  // Pointer
+  /// ///////
+
+  onPointerDown = (event: PointerEvent): void => {
+    const { disabled, panning } = this.setup;
+    const { onPanningStart } = this.props;
+
+    if (disabled) return;
+
+    const isAllowed = isPanningStartAllowed(this, event);
+    if (!isAllowed) return;
+
+    if (!isPointerButtonAllowed(panning, event)) return;
+
+    const isTouch = event.pointerType === "touch";
+    const keysPressed = this.isPressingKeys(panning.activationKeys);
+    if (!isTouch && !keysPressed) return;
+
+    this.activeTouches = this.activeTouches.filter(
+      (pointer) => pointer.identifier !== event.pointerId,
+    );
+    this.activeTouches.push(getPointerPosition(event));
+    this.wrapperComponent?.setPointerCapture?.(event.pointerId);
+
+    const isDoubleTap =
+      isTouch &&
+      this.lastTouch &&
+      Date.now() - this.lastTouch < 200 &&
+      this.activeTouches.length === 1;
+
+    if (isDoubleTap) return;
+
+    if (isTouch) {
+      this.lastTouch = Date.now();
+    }
+
+    handleCancelAnimation(this);
+
+    const isPanningAction = this.activeTouches.length === 1;
+    const isPinchAction = this.activeTouches.length === 2;
+
+    if (isPanningAction) {
+      if (!isTouch) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+
+      handlePanningStart(this, event);
+      handleCallback(getContext(this), event, onPanningStart);
+    }
+    if (isPinchAction) {
+      this.onPinchStart(event);
+    }
+  };
+
+  onPointerMove = (event: PointerEvent): void => {
+    const index = this.activeTouches.findIndex(
+      (pointer) => pointer.identifier === event.pointerId,
+    );
+
+    if (index === -1) return;
+
+    this.activeTouches[index] = getPointerPosition(event);
+
+    const { disabled } = this.setup;
+    const { onPanning } = this.props;
+
+    if (this.isPanning && this.activeTouches.length === 1) {
+      if (disabled) return;
+
+      const isAllowed = isPanningAllowed(this);
+      if (!isAllowed) return;
+
+      const isTouch = event.pointerType === "touch";
+      const keysPressed = this.isPressingKeys(
+        this.setup.panning.activationKeys,
+      );
+      if (!isTouch && !keysPressed) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+
+      handlePanning(this, event.clientX, event.clientY);
+      handleCallback(getContext(this), event, onPanning);
+    } else if (this.activeTouches.length > 1) {
+      this.onPinch(event);
+    }
+  };
+
+  onPointerUp = (event: PointerEvent): void => {
+    const isActive = this.activeTouches.some(
+      (pointer) => pointer.identifier === event.pointerId,
+    );
+
+    if (!isActive) return;
+
+    this.activeTouches = this.activeTouches.filter(
+      (pointer) => pointer.identifier !== event.pointerId,
+    );
+    if (this.wrapperComponent?.hasPointerCapture?.(event.pointerId)) {
+      this.wrapperComponent.releasePointerCapture(event.pointerId);
+    }
+
+    this.onPanningStop(event);
+    this.onPinchStop(event);
+  };
+
   /// ///////
   // Double Click
   /// ///////
@@ -519,6 +776,24 @@ export class ZoomPanPinch {
     handleDoubleClick(this, event);
   };
 
+  /// ///////
+  // Keyboard
+  /// ///////
+
+  onKeyboard = (event: KeyboardEvent): void => {
+    const { disabled } = this.setup;
+    if (disabled) return;
+
+    const isAllowed = isKeyboardAllowed(this, event);
+    if (!isAllowed) return;
+
+    const isHandled = handleKeyboard(this, event);
+    if (!isHandled) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
   /// ///////
   // Helpers
   /// ///////
@@ -548,36 +823,130 @@ export class ZoomPanPinch {
     scale: number,
     positionX: number,
     positionY: number,
+    rotation: number = this.transformState.rotation,
+    scaleX: number = this.transformState.scaleX,
+    scaleY: number = this.transformState.scaleY,
   ): void => {
-    const { onTransformed } = this.props;
+    const { transform, onTransformChange } = this.props;
 
     if (
-      !Number.isNaN(scale) &&
-      !Number.isNaN(positionX) &&
-      !Number.isNaN(positionY)
+      Number.isNaN(scale) ||
+      Number.isNaN(positionX) ||
+      Number.isNaN(positionY) ||
+      Number.isNaN(rotation) ||
+      Number.isNaN(scaleX) ||
+      Number.isNaN(scaleY)
     ) {
-      if (scale !== this.transformState.scale) {
-        this.transformState.previousScale = this.transformState.scale;
-        this.transformState.scale = scale;
-      }
-      this.transformState.positionX = positionX;
-      this.transformState.positionY = positionY;
-
-      this.applyTransformation();
-      const ctx = getContext(this);
-      this.onChangeCallbacks.forEach((callback) => callback(ctx));
-      handleCallback(ctx, { scale, positionX, positionY }, onTransformed);
-    } else {
       console.error("Detected NaN set state values");
+      return;
     }
+
+    const { scale: currentScale, previousScale } = this.transformState;
+    this.proposedState = {
+      previousScale: scale !== currentScale ? currentScale : previousScale,
+      scale,
+      positionX,
+      positionY,
+      rotation,
+      scaleX,
+      scaleY,
+    };
+
+    handleCallback(
+      getContext(this),
+      { scale, positionX, positionY, rotation, scaleX, scaleY },
+      onTransformChange,
+    );
+
+    // In the controlled mode the new state is only proposed to the parent,
+    // it gets applied when it comes back with the transform prop
+    if (transform) return;
+
+    this.commitTransformState(
+      scale,
+      positionX,
+      positionY,
+      rotation,
+      scaleX,
+      scaleY,
+    );
+  };
+
+  /**
+   * Applies the controlled transform prop when it differs from the current state
+   */
+  syncTransform = (): void => {
+    const { transform } = this.props;
+    if (!transform) return;
+
+    const { scale, positionX, positionY, rotation, scaleX, scaleY } =
+      this.transformState;
+    const newRotation = transform.rotation ?? rotation;
+    const newScaleX = transform.scaleX ?? scaleX;
+    const newScaleY = transform.scaleY ?? scaleY;
+
+    if (
+      transform.scale === scale &&
+      transform.positionX === positionX &&
+      transform.positionY === positionY &&
+      newRotation === rotation &&
+      newScaleX === scaleX &&
+      newScaleY === scaleY
+    ) {
+      return;
+    }
+
+    this.commitTransformState(
+      transform.scale,
+      transform.positionX,
+      transform.positionY,
+      newRotation,
+      newScaleX,
+      newScaleY,
+    );
+  };
+
+  commitTransformState = (
+    scale: number,
+    positionX: number,
+    positionY: number,
+    rotation: number,
+    scaleX: number = this.transformState.scaleX,
+    scaleY: number = this.transformState.scaleY,
+  ): void => {
+    const { onTransformed } = this.props;
+
+    if (scale !== this.transformState.scale) {
+      this.transformState.previousScale = this.transformState.scale;
+      this.transformState.scale = scale;
+    }
+    this.transformState.positionX = positionX;
+    this.transformState.positionY = positionY;
+    this.transformState.rotation = rotation;
+    this.transformState.scaleX = scaleX;
+    this.transformState.scaleY = scaleY;
+
+    this.applyTransformation();
+    const ctx = getContext(this);
+    this.onChangeCallbacks.forEach((callback) => callback(ctx));
+    handleCallback(
+      ctx,
+      { scale, positionX, positionY, rotation, scaleX, scaleY },
+      onTransformed,
+    );
   };
 
   setCenter = (): void => {
     if (this.wrapperComponent && this.contentComponent) {
+      const { scale, rotation, scaleX, scaleY } = this.transformState;
       const targetState = getCenterPosition(
-        this.transformState.scale,
+        scale,
         this.wrapperComponent,
         this.contentComponent,
+        rotation,
+        scaleX,
+        scaleY,
+        this.setup.viewportInsets,
       );
       this.setTransformState(
         targetState.scale,
@@ -587,17 +956,32 @@ export class ZoomPanPinch {
     }
   };
 
-  handleTransformStyles = (x: number, y: number, scale: number) => {
+  handleTransformStyles = (
+    x: number,
+    y: number,
+    scale: number,
+    rotation = 0,
+    scaleX = 1,
+    scaleY = 1,
+  ) => {
     if (this.props.customTransform) {
-      return this.props.customTransform(x, y, scale);
+      return this.props.customTransform(x, y, scale, rotation, scaleX, scaleY);
     }
-    return getTransformStyles(x, y, scale);
+    return getTransformStyles(x, y, scale, rotation, scaleX, scaleY);
   };
 
   applyTransformation = (): void => {
     if (!this.mounted || !this.contentComponent) return;
-    const { scale, positionX, positionY } = this.transformState;
-    const transform = this.handleTransformStyles(positionX, positionY, scale);
+    const { scale, positionX, positionY, rotation, scaleX, scaleY } =
+      this.transformState;
+    const transform = this.handleTransformStyles(
+      positionX,
+      positionY,
+      scale,
+      rotation,
+      scaleX,
+      scaleY,
+    );
     this.contentComponent.style.transform = transform;
   };
 
@@ -605,6 +989,46 @@ export class ZoomPanPinch {
     return getContext(this);
   };
 
+  /**
+   * Coordinates
+   */
+
+  screenToContent = (point: PositionType): PositionType => {
+    return screenToContent(this, point);
+  };
+
+  contentToScreen = (point: PositionType): PositionType => {
+    return contentToScreen(this, point);
+  };
+
+  wrapperToContent = (point: PositionType): PositionType => {
+    return wrapperToContent(this, point);
+  };
+
+  contentToWrapper = (point: PositionType): PositionType => {
+    return contentToWrapper(this, point);
+  };
+
+  getTransformMatrix = (): DOMMatrix | null => {
+    return getTransformMatrix(this);
+  };
+
+  getInverseTransformMatrix = (): DOMMatrix | null => {
+    return getTransformMatrix(this, true);
+  };
+
+  getVisibleRect = (): RectType | null => {
+    return getVisibleRect(this);
+  };
+
+  isRectVisible = (rect: RectType): boolean => {
+    return isRectVisible(this, rect);
+  };
+
+  isElementVisible = (node: Element): boolean => {
+    return isElementVisible(this, node);
+  };
+
   /**
    * Hooks
    */
@@ -618,6 +1042,15 @@ export class ZoomPanPinch {
     };
   };
 
+  onSettle = (callback: (ref: ReactZoomPanPinchRef) => void) => {
+    if (!this.onSettleCallbacks.has(callback)) {
+      this.onSettleCallbacks.add(callback);
+    }
+    return () => {
+      this.onSettleCallbacks.delete(callback);
+    };
+  };
+
   onInit = (callback: (ref: ReactZoomPanPinchRef) => void) => {
     if (!this.onInitCallbacks.has(callback)) {
       this.onInitCallbacks.add(callback);
@@ -643,6 +1076,7 @@ export class ZoomPanPinch {
     this.handleInitialize(wrapperComponent, contentComponent);
     this.initializeWindowEvents();
     this.isInitialized = true;
+    handleHistoryReset(this);
     const ctx = getContext(this);
     handleCallback(ctx, undefined, this.props.onInit);
   };
@@ -0,0 +1,123 @@
+import { ReactZoomPanPinchContext } from "../../models";
+import { getCenterPosition } from "../../utils";
+import { animate } from "../animations/animations.utils";
+import {
+  getMouseBoundedPosition,
+  handleCalculateBounds,
+} from "../bounds/bounds.utils";
+import {
+  handleZoomToViewCenter,
+  resetTransformations,
+} from "../handlers/handlers.utils";
+import {
+  calculateFitScale,
+  getKeyboardAction,
+  KeyboardActionType,
+} from "./keyboard.utils";
+
+const panDirections: Partial<Record<KeyboardActionType, [number, number]>> = {
+  panUp: [0, 1],
+  panDown: [0, -1],
+  panLeft: [1, 0],
+  panRight: [-1, 0],
+};
+
+export const handleKeyboardPan = (
+  contextInstance: ReactZoomPanPinchContext,
+  directionX: number,
+  directionY: number,
+): void => {
+  const { wrapperComponent, setup, transformState } = contextInstance;
+  const { limitToBounds, panning, keyboard } = setup;
+  const { positionX, positionY, scale } = transformState;
+  const { panStep, animationTime, animationType } = keyboard;
+
+  if (!wrapperComponent || panning.disabled) return;
+
+  const newPositionX = panning.lockAxisX
+    ? positionX
+    : positionX + directionX * panStep;
+  const newPositionY = panning.lockAxisY
+    ? positionY
+    : positionY + directionY * panStep;
+
+  const bounds =
+    contextInstance.bounds || handleCalculateBounds(contextInstance, scale);
+
+  const { x, y } = getMouseBoundedPosition(
+    newPositionX,
+    newPositionY,
+    bounds,
+    limitToBounds,
+    0,
+    0,
+    wrapperComponent,
+  );
+
+  if (x === positionX && y === positionY) return;
+
+  animate(
+    contextInstance,
+    { positionX: x, positionY: y, scale },
+    animationTime,
+    animationType,
+  );
+};
+
+export const handleKeyboardFit = (
+  contextInstance: ReactZoomPanPinchContext,
+): void => {
+  const { wrapperComponent, contentComponent, setup, transformState } =
+    contextInstance;
+  const { animationTime, animationType } = setup.keyboard;
+
+  if (!wrapperComponent || !contentComponent) return;
+
+  const targetState = getCenterPosition(
+    calculateFitScale(contextInstance),
+    wrapperComponent,
+    contentComponent,
+    transformState.rotation,
+    transformState.scaleX,
+    transformState.scaleY,
+    setup.viewportInsets,
+  );
+
+  animate(contextInstance, targetState, animationTime, animationType);
+};
+
+/**
+ * Runs the action assigned to the pressed key.
+ * Returns false when the key is not part of the keyboard setup.
+ */
+export const handleKeyboard = (
+  contextInstance: ReactZoomPanPinchContext,
+  event: KeyboardEvent,
+): boolean => {
+  const { keyboard } = contextInstance.setup;
+  const { zoomStep, animationTime, animationType } = keyboard;
+
+  const action = getKeyboardAction(keyboard, event.key);
+
+  if (!action) return false;
+
+  const panDirection = panDirections[action];
+
+  if (panDirection) {
+    handleKeyboardPan(contextInstance, panDirection[0], panDirection[1]);
+  } else if (action === "zoomIn" || action === "zoomOut") {
+    handleZoomToViewCenter(
+      contextInstance,
+      action === "zoomIn" ? 1 : -1,
+      zoomStep,
+      animationTime,
+      animationType,
+    );
+  } else if (action === "reset") {
+    resetTransformations(contextInstance, animationTime, animationType);
+  } else if (action === "fit") {
+    handleKeyboardFit(contextInstance);
+  }
+
+  return true;
+};
@@ -0,0 +1,95 @@
+import { LibrarySetup, ReactZoomPanPinchContext } from "../../models";
+import { isExcludedNode } from "../../utils";
+import { getTransformedSize } from "../rotation/rotation.utils";
+import { getViewportArea } from "../viewport/viewport.utils";
+import { checkZoomBounds } from "../zoom/zoom.utils";
+
+export type KeyboardActionType =
+  | "panUp"
+  | "panDown"
+  | "panLeft"
+  | "panRight"
+  | "zoomIn"
+  | "zoomOut"
+  | "reset"
+  | "fit";
+
+const editableTags = ["INPUT", "TEXTAREA", "SELECT"];
+
+const isEditableNode = (node: HTMLElement): boolean => {
+  return node.isContentEditable || editableTags.includes(node.tagName);
+};
+
+export const isKeyboardAllowed = (
+  contextInstance: ReactZoomPanPinchContext,
+  event: KeyboardEvent,
+): boolean => {
+  const { isInitialized, setup, wrapperComponent } = contextInstance;
+  const { disabled, excluded } = setup.keyboard;
+
+  const target = event.target as HTMLElement;
+  const isWrapperChild = wrapperComponent?.contains(target);
+  const isAllowed = isInitialized && target && isWrapperChild && !disabled;
+
+  if (!isAllowed) return false;
+
+  // Leave the browser and os shortcuts like ctrl + "+" untouched
+  if (event.ctrlKey || event.metaKey || event.altKey) return false;
+
+  if (isEditableNode(target)) return false;
+
+  const isExcluded = isExcludedNode(target, excluded);
+
+  if (isExcluded) return false;
+
+  return true;
+};
+
+export const getKeyboardAction = (
+  keyboard: LibrarySetup["keyboard"],
+  key: string,
+): KeyboardActionType | null => {
+  const actions: [KeyboardActionType, string[]][] = [
+    ["panUp", keyboard.panUpKeys],
+    ["panDown", keyboard.panDownKeys],
+    ["panLeft", keyboard.panLeftKeys],
+    ["panRight", keyboard.panRightKeys],
+    ["zoomIn", keyboard.zoomInKeys],
+    ["zoomOut", keyboard.zoomOutKeys],
+    ["reset", keyboard.resetKeys],
+    ["fit", keyboard.fitKeys],
+  ];
+
+  const action = actions.find(([, keys]) => keys.includes(key));
+
+  return action ? action[0] : null;
+};
+
+/**
+ * Returns the scale at which the whole content fits into the viewport
+ */
+export const calculateFitScale = (
+  contextInstance: ReactZoomPanPinchContext,
+): number => {
+  const { wrapperComponent, contentComponent, setup, transformState } =
+    contextInstance;
+  const { minScale, maxScale } = setup;
+
+  if (!wrapperComponent || !contentComponent) return transformState.scale;
+
+  // Size at the scale of 1, the axis scales are kept by the fit
+  const { width, height } = getTransformedSize(
+    contentComponent.offsetWidth,
+    contentComponent.offsetHeight,
+    transformState.scaleX,
+    transformState.scaleY,
+    transformState.rotation,
+  );
+
+  if (!width || !height) return transformState.scale;
+
+  const viewport = getViewportArea(wrapperComponent, setup.viewportInsets);
+  const scale = Math.min(viewport.width / width, viewport.height / height);
+
+  return checkZoomBounds(scale, minScale, maxScale, 0, false);
+};
@@ -2,6 +2,9 @@
 import { ReactZoomPanPinchContext } from "../../models/context.model";
 import { animate, handleCancelAnimation } from "../animations/animations.utils";
 import { handleCalculateBounds } from "../bounds/bounds.utils";
+import { handleSnapPanning } from "../snap/snap.logic";
+import { handleTransformSettle } from "../settle/settle.logic";
+import { cancelTimeout } from "../../utils/helpers.utils";
 import {
   getPaddingValue,
   getPanningClientPosition,
@@ -15,6 +18,8 @@ import {
   handleVelocityPanning,
 } from "./velocity.logic";
 
+const wheelPanningStopTime = 160;
+
 export function handlePanningStart(
   contextInstance: ReactZoomPanPinchContext,
   event: MouseEvent | TouchEvent,
@@ -36,10 +41,11 @@ export function handleAlignToBounds(
 ): void {
   const { scale } = contextInstance.transformState;
   const { minScale, alignmentAnimation } = contextInstance.setup;
-  const { disabled, sizeX, sizeY, animationTime, animationType } =
+  const { disabled, sizeX, sizeY, animationTime, animationType, elastic } =
     alignmentAnimation;
 
-  const isDisabled = disabled || scale < minScale || (!sizeX && !sizeY);
+  const isDisabled =
+    disabled || scale < minScale || (!sizeX && !sizeY && !elastic);
 
   if (isDisabled) return;
 
@@ -84,6 +90,8 @@ export function handlePanningEnd(
     contextInstance.animate = false;
     contextInstance.animation = null;
 
+    if (handleSnapPanning(contextInstance)) return;
+
     const wrapperRect = wrapperComponent?.getBoundingClientRect();
     const contentRect = contentComponent?.getBoundingClientRect();
 
@@ -104,3 +112,23 @@ export function handlePanningEnd(
     }
   }
 }
+
+/**
+ * Wheel panning has no end event, so it stops when the wheel is idle for a while.
+ * The overscrolled content goes back to the bounds, as after the drag.
+ */
+export function handleWheelPanningStop(
+  contextInstance: ReactZoomPanPinchContext,
+): void {
+  contextInstance.isWheelPanning = true;
+
+  cancelTimeout(contextInstance.wheelStopEventTimer);
+  contextInstance.wheelStopEventTimer = setTimeout(() => {
+    if (!contextInstance.mounted) return;
+    contextInstance.wheelStopEventTimer = null;
+    contextInstance.isWheelPanning = false;
+    contextInstance.wheelElasticPosition = null;
+    handleAlignToBounds(contextInstance);
+    handleTransformSettle(contextInstance);
+  }, wheelPanningStopTime);
+}
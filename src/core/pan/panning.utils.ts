@@ -5,7 +5,10 @@ import {
   ReactZoomPanPinchState,
 } from "../../models";
 import { isExcludedNode } from "../../utils";
-import { getMouseBoundedPosition } from "../bounds/bounds.utils";
+import {
+  getElasticBoundedPosition,
+  getMouseBoundedPosition,
+} from "../bounds/bounds.utils";
 import { handleCalculateZoomPositions } from "../zoom/zoom.utils";
 
 export const isPanningStartAllowed = (
@@ -85,7 +88,8 @@ export const handleTouchPanningSetup = (
 export function handlePanToBounds(
   contextInstance: ReactZoomPanPinchContext,
 ): Omit<ReactZoomPanPinchState, "previousScale"> | undefined {
-  const { positionX, positionY, scale } = contextInstance.transformState;
+  const { positionX, positionY, scale, rotation, scaleX, scaleY } =
+    contextInstance.transformState;
   const { disabled, limitToBounds, centerZoomedOut } = contextInstance.setup;
   const { wrapperComponent } = contextInstance;
 
@@ -119,6 +123,9 @@ export function handlePanToBounds(
     scale,
     positionX: xChanged ? x : positionX,
     positionY: yChanged ? y : positionY,
+    rotation,
+    scaleX,
+    scaleY,
   };
 }
 
@@ -142,7 +149,8 @@ export function handleNewPosition(
   paddingValueX: number,
   paddingValueY: number,
 ): void {
-  const { limitToBounds } = contextInstance.setup;
+  const { limitToBounds, alignmentAnimation } = contextInstance.setup;
+  const { elastic, elasticity } = alignmentAnimation;
   const { wrapperComponent, bounds } = contextInstance;
   const { scale, positionX, positionY } = contextInstance.transformState;
 
@@ -154,6 +162,22 @@ export function handleNewPosition(
     return;
   }
 
+  if (elastic) {
+    const elasticPosition = getElasticBoundedPosition(
+      newPositionX,
+      newPositionY,
+      bounds,
+      limitToBounds,
+      elasticity,
+    );
+    contextInstance.setTransformState(
+      scale,
+      elasticPosition.x,
+      elasticPosition.y,
+    );
+    return;
+  }
+
   const { x, y } = getMouseBoundedPosition(
     newPositionX,
     newPositionY,
@@ -1,8 +1,10 @@
 /* eslint-disable no-param-reassign */
 import { PositionType } from "../../models";
 import { ReactZoomPanPinchContext } from "../../models/context.model";
-import { animations } from "../animations/animations.constants";
-import { handleSetupAnimation } from "../animations/animations.utils";
+import {
+  getEasingFunction,
+  handleSetupAnimation,
+} from "../animations/animations.utils";
 import { getPaddingValue } from "./panning.utils";
 import {
   getVelocityPosition,
@@ -95,16 +97,18 @@ export function handleVelocityPanning(
 
   const startState = contextInstance.transformState;
 
-  const startTime = new Date().getTime();
+  const startTime = Date.now();
   handleSetupAnimation(
     contextInstance,
     animationType,
     finalAnimationTime,
     (step: number) => {
       const { scale, positionX, positionY } = contextInstance.transformState;
-      const frameTime = new Date().getTime() - startTime;
+      const frameTime = Date.now() - startTime;
       const animationProgress = frameTime / alignAnimationTime;
-      const alignAnimation = animations[alignmentAnimation.animationType];
+      const alignAnimation = getEasingFunction(
+        alignmentAnimation.animationType,
+      );
       const alignStep = 1 - alignAnimation(Math.min(1, animationProgress));
 
       const customStep = 1 - step;
@@ -1,20 +1,36 @@
 /* eslint-disable no-param-reassign */
-import { ReactZoomPanPinchContext } from "../../models";
+import {
+  BoundsType,
+  PointerPositionType,
+  PositionType,
+  ReactZoomPanPinchContext,
+} from "../../models";
 import { handleCancelAnimation } from "../animations/animations.utils";
 import {
+  getElasticBoundedPosition,
   getMouseBoundedPosition,
   handleCalculateBounds,
 } from "../bounds/bounds.utils";
 import { getPaddingValue } from "../pan/panning.utils";
-import { handleAlignToScaleBounds } from "../zoom/zoom.logic";
-import { handleCalculateZoomPositions } from "../zoom/zoom.utils";
 import {
+  handleAlignToScaleBounds,
+  handleSnapToZoomLevel,
+} from "../zoom/zoom.logic";
+import {
+  getAxisScale,
+  getAxisZoomState,
+  handleCalculateZoomPositions,
+} from "../zoom/zoom.utils";
+import {
+  calculatePinchRotation,
   calculatePinchZoom,
   calculateTouchMidPoint,
-  getTouchDistance,
+  getPinchAxis,
+  getPinchDistance,
+  getTouchAngle,
 } from "./pinch.utils";
 
-const getTouchCenter = (activeTouches: Touch[]) => {
+const getTouchCenter = (activeTouches: PointerPositionType[]) => {
   let totalX = 0;
   let totalY = 0;
   // Sum up the positions of all touches
@@ -30,14 +46,58 @@ const getTouchCenter = (activeTouches: Touch[]) => {
   return { x, y };
 };
 
+/**
+ * Pinch positions are relative to the current, already resisted state.
+ * The movement is accumulated on the unresisted position, so the resistance doesn't stack up.
+ */
+const handlePinchElasticPosition = (
+  contextInstance: ReactZoomPanPinchContext,
+  newPositionX: number,
+  newPositionY: number,
+  bounds: BoundsType,
+  elasticity: number,
+): PositionType => {
+  const { transformState, setup } = contextInstance;
+  const { positionX, positionY } = transformState;
+  const { x: startX, y: startY } = contextInstance.pinchElasticPosition || {
+    x: positionX,
+    y: positionY,
+  };
+
+  const elasticPosition = {
+    x: startX + newPositionX - positionX,
+    y: startY + newPositionY - positionY,
+  };
+  contextInstance.pinchElasticPosition = elasticPosition;
+
+  return getElasticBoundedPosition(
+    elasticPosition.x,
+    elasticPosition.y,
+    bounds,
+    setup.limitToBounds,
+    elasticity,
+  );
+};
+
 export const handlePinchStart = (
   contextInstance: ReactZoomPanPinchContext,
 ): void => {
-  const distance = getTouchDistance(contextInstance.activeTouches);
+  const { activeTouches, transformState, setup } = contextInstance;
+  const axis = getPinchAxis(setup.pinch.axis, activeTouches);
+  const distance = getPinchDistance(activeTouches, axis);
 
+  contextInstance.pinchAxis = axis;
   contextInstance.pinchStartDistance = distance;
   contextInstance.lastDistance = distance;
-  contextInstance.pinchStartScale = contextInstance.transformState.scale;
+  contextInstance.pinchStartScale = getAxisScale(transformState, axis);
+  contextInstance.pinchStartAngle = getTouchAngle(
+    contextInstance.activeTouches,
+  );
+  contextInstance.pinchStartRotation = contextInstance.transformState.rotation;
+  contextInstance.pinchElasticPosition = {
+    x: transformState.positionX,
+    y: transformState.positionY,
+  };
   contextInstance.isPanning = false;
 
   const center = getTouchCenter(contextInstance.activeTouches);
@@ -52,10 +112,13 @@ export const handlePinchZoom = (
 ): void => {
   const { contentComponent, pinchStartDistance, wrapperComponent } =
     contextInstance;
-  const { scale } = contextInstance.transformState;
+  const { transformState } = contextInstance;
+  const { scale, rotation, scaleX, scaleY } = transformState;
+  const axis = contextInstance.pinchAxis ?? "both";
   const { limitToBounds, centerZoomedOut, zoomAnimation, alignmentAnimation } =
     contextInstance.setup;
   const { disabled, size } = zoomAnimation;
+  const { elastic, elasticity } = alignmentAnimation;
 
   // if one finger starts from outside of wrapper
   if (pinchStartDistance === null || !contentComponent) return;
@@ -64,28 +127,58 @@ export const handlePinchZoom = (
     contextInstance.activeTouches,
     scale,
     contentComponent,
+    rotation,
+    scaleX,
+    scaleY,
   );
 
   // if touches goes off of the wrapper element
   if (!Number.isFinite(midPoint.x) || !Number.isFinite(midPoint.y)) return;
 
-  const currentDistance = getTouchDistance(contextInstance.activeTouches);
-  const newScale = calculatePinchZoom(contextInstance, currentDistance);
+  const currentDistance = getPinchDistance(contextInstance.activeTouches, axis);
+  // fingers are aligned across the zoomed axis
+  if (!currentDistance) return;
+
+  const {
+    scale: newScale,
+    scaleX: newScaleX,
+    scaleY: newScaleY,
+  } = getAxisZoomState(
+    transformState,
+    axis,
+    calculatePinchZoom(contextInstance, currentDistance),
+  );
+  const newRotation = calculatePinchRotation(contextInstance);
 
   const center = getTouchCenter(contextInstance.activeTouches);
   // pan should be scale invariant.
   const panX = center.x - (contextInstance.pinchLastCenterX || 0);
   const panY = center.y - (contextInstance.pinchLastCenterY || 0);
 
-  if (newScale === scale && panX === 0 && panY === 0) return;
+  if (
+    newScale === scale &&
+    newScaleX === scaleX &&
+    newScaleY === scaleY &&
+    newRotation === rotation &&
+    panX === 0 &&
+    panY === 0
+  ) {
+    return;
+  }
 
   contextInstance.pinchLastCenterX = center.x;
   contextInstance.pinchLastCenterY = center.y;
 
-  const bounds = handleCalculateBounds(contextInstance, newScale);
+  const bounds = handleCalculateBounds(
+    contextInstance,
+    newScale,
+    newRotation,
+    newScaleX,
+    newScaleY,
+  );
 
   const isPaddingDisabled = disabled || size === 0 || centerZoomedOut;
-  const isLimitedToBounds = limitToBounds && isPaddingDisabled;
+  const isLimitedToBounds = limitToBounds && isPaddingDisabled && !elastic;
 
   const { x, y } = handleCalculateZoomPositions(
     contextInstance,
@@ -94,6 +187,9 @@ export const handlePinchZoom = (
     newScale,
     bounds,
     isLimitedToBounds,
+    newRotation,
+    newScaleX,
+    newScaleY,
   );
 
   contextInstance.pinchMidpoint = midPoint;
@@ -105,28 +201,59 @@ export const handlePinchZoom = (
 
   const newPositionX = x + panX;
   const newPositionY = y + panY;
-  const { x: finalX, y: finalY } = getMouseBoundedPosition(
-    newPositionX,
-    newPositionY,
-    bounds,
-    limitToBounds,
-    paddingValueX,
-    paddingValueY,
-    wrapperComponent,
-  );
+  const { x: finalX, y: finalY } = elastic
+    ? handlePinchElasticPosition(
+        contextInstance,
+        newPositionX,
+        newPositionY,
+        bounds,
+        elasticity,
+      )
+    : getMouseBoundedPosition(
+        newPositionX,
+        newPositionY,
+        bounds,
+        limitToBounds,
+        paddingValueX,
+        paddingValueY,
+        wrapperComponent,
+      );
 
-  contextInstance.setTransformState(newScale, finalX, finalY);
+  contextInstance.setTransformState(
+    newScale,
+    finalX,
+    finalY,
+    newRotation,
+    newScaleX,
+    newScaleY,
+  );
 };
 
 export const handlePinchStop = (
   contextInstance: ReactZoomPanPinchContext,
 ): void => {
-  const { pinchMidpoint } = contextInstance;
+  const { pinchMidpoint, pinchAxis } = contextInstance;
 
   contextInstance.velocity = null;
   contextInstance.lastDistance = null;
   contextInstance.pinchMidpoint = null;
   contextInstance.pinchStartScale = null;
   contextInstance.pinchStartDistance = null;
-  handleAlignToScaleBounds(contextInstance, pinchMidpoint?.x, pinchMidpoint?.y);
+  contextInstance.pinchStartAngle = null;
+  contextInstance.pinchStartRotation = null;
+  contextInstance.pinchAxis = null;
+  contextInstance.pinchElasticPosition = null;
+
+  // Zoom levels apply to the uniform scale only
+  const isSnapped =
+    pinchAxis === "both" &&
+    handleSnapToZoomLevel(contextInstance, pinchMidpoint?.x, pinchMidpoint?.y);
+
+  if (!isSnapped) {
+    handleAlignToScaleBounds(
+      contextInstance,
+      pinchMidpoint?.x,
+      pinchMidpoint?.y,
+    );
+  }
 };
@@ -1,10 +1,18 @@
-import { PositionType, ReactZoomPanPinchContext } from "../../models";
+import {
+  PinchAxisType,
+  PointerPositionType,
+  PositionType,
+  ReactZoomPanPinchContext,
+  ZoomAxisType,
+} from "../../models";
 import { isExcludedNode, roundNumber } from "../../utils";
-import { checkZoomBounds } from "../zoom/zoom.utils";
+import { rubberbandIfOutOfBounds } from "../bounds/bounds.utils";
+import { getContentPosition, normalizeAngle } from "../rotation/rotation.utils";
+import { checkZoomBounds, getAxisScale } from "../zoom/zoom.utils";
 
 export const isPinchStartAllowed = (
   contextInstance: ReactZoomPanPinchContext,
-  event: TouchEvent,
+  event: TouchEvent | PointerEvent,
 ): boolean => {
   const { disabled, excluded } = contextInstance.setup.pinch;
   const { isInitialized } = contextInstance;
@@ -35,29 +43,78 @@ export const isPinchAllowed = (
 };
 
 export const calculateTouchMidPoint = (
-  touches: Touch[],
+  touches: PointerPositionType[],
   scale: number,
   contentComponent: HTMLDivElement,
+  rotation = 0,
+  scaleX = 1,
+  scaleY = 1,
 ): PositionType => {
-  const contentRect = contentComponent.getBoundingClientRect();
-  const firstPointX = roundNumber(touches[0].clientX - contentRect.left, 5);
-  const firstPointY = roundNumber(touches[0].clientY - contentRect.top, 5);
-  const secondPointX = roundNumber(touches[1].clientX - contentRect.left, 5);
-  const secondPointY = roundNumber(touches[1].clientY - contentRect.top, 5);
+  const midPoint = getContentPosition(
+    (touches[0].clientX + touches[1].clientX) / 2,
+    (touches[0].clientY + touches[1].clientY) / 2,
+    contentComponent,
+    scale,
+    rotation,
+    scaleX,
+    scaleY,
+  );
 
   return {
-    x: (firstPointX + secondPointX) / 2 / scale,
-    y: (firstPointY + secondPointY) / 2 / scale,
+    x: roundNumber(midPoint.x, 5),
+    y: roundNumber(midPoint.y, 5),
   };
 };
 
-export const getTouchDistance = (activeTouches: Touch[]): number => {
+export const getTouchAngle = (activeTouches: PointerPositionType[]): number => {
+  const angle = Math.atan2(
+    activeTouches[1].pageY - activeTouches[0].pageY,
+    activeTouches[1].pageX - activeTouches[0].pageX,
+  );
+
+  return (angle * 180) / Math.PI;
+};
+
+export const getTouchDistance = (
+  activeTouches: PointerPositionType[],
+): number => {
   return Math.sqrt(
     (activeTouches[0].pageX - activeTouches[1].pageX) ** 2 +
       (activeTouches[0].pageY - activeTouches[1].pageY) ** 2,
   );
 };
 
+/**
+ * Picks the zoomed axis, the dominant one is the axis with the bigger finger separation
+ */
+export const getPinchAxis = (
+  axis: PinchAxisType,
+  activeTouches: PointerPositionType[],
+): ZoomAxisType => {
+  if (axis !== "dominant") return axis;
+
+  const distanceX = Math.abs(activeTouches[0].pageX - activeTouches[1].pageX);
+  const distanceY = Math.abs(activeTouches[0].pageY - activeTouches[1].pageY);
+
+  return distanceX >= distanceY ? "x" : "y";
+};
+
+/**
+ * Returns the finger separation along the zoomed axis
+ */
+export const getPinchDistance = (
+  activeTouches: PointerPositionType[],
+  axis: ZoomAxisType,
+): number => {
+  if (axis === "x") {
+    return Math.abs(activeTouches[0].pageX - activeTouches[1].pageX);
+  }
+  if (axis === "y") {
+    return Math.abs(activeTouches[0].pageY - activeTouches[1].pageY);
+  }
+  return getTouchDistance(activeTouches);
+};
+
 export const calculatePinchZoom = (
   contextInstance: ReactZoomPanPinchContext,
   currentDistance: number,
@@ -65,23 +122,57 @@ export const calculatePinchZoom = (
   const { pinchStartScale, pinchStartDistance, setup } = contextInstance;
   const { maxScale, minScale, zoomAnimation, disablePadding } = setup;
   const { size, disabled } = zoomAnimation;
+  const { elastic, elasticity } = setup.alignmentAnimation;
+  const axis = contextInstance.pinchAxis ?? "both";
 
   if (!pinchStartScale || pinchStartDistance === null || !currentDistance) {
     throw new Error("Pinch touches distance was not provided");
   }
 
   if (currentDistance < 0) {
-    return contextInstance.transformState.scale;
+    return getAxisScale(contextInstance.transformState, axis);
   }
 
   const touchProportion = currentDistance / pinchStartDistance;
   const scaleDifference = touchProportion * pinchStartScale;
 
+  // Scale limits are aligned back for the uniform scale only
+  if (elastic && axis === "both") {
+    return roundNumber(
+      rubberbandIfOutOfBounds(scaleDifference, minScale, maxScale, elasticity),
+      2,
+    );
+  }
+
   return checkZoomBounds(
     roundNumber(scaleDifference, 2),
     minScale,
     maxScale,
     size,
-    !disabled && !disablePadding,
+    // Zoom padding animates the uniform scale back, so the axis zoom has no padding
+    !disabled && !disablePadding && axis === "both",
+  );
+};
+
+export const calculatePinchRotation = (
+  contextInstance: ReactZoomPanPinchContext,
+): number => {
+  const { pinchStartAngle, pinchStartRotation, activeTouches, setup } =
+    contextInstance;
+  const { rotation } = contextInstance.transformState;
+
+  if (
+    !setup.pinch.allowRotation ||
+    contextInstance.pinchAxis !== "both" ||
+    pinchStartAngle === null ||
+    pinchStartRotation === null
+  ) {
+    return rotation;
+  }
+
+  const angleDifference = normalizeAngle(
+    getTouchAngle(activeTouches) - pinchStartAngle,
   );
+
+  return roundNumber(pinchStartRotation + angleDifference, 2);
 };
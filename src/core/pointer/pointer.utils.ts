@@ -0,0 +1,29 @@
+import { LibrarySetup, PointerPositionType } from "../../models";
+
+export const getPointerPosition = (
+  event: PointerEvent,
+): PointerPositionType => {
+  return {
+    identifier: event.pointerId,
+    clientX: event.clientX,
+    clientY: event.clientY,
+    pageX: event.pageX,
+    pageY: event.pageY,
+  };
+};
+
+/**
+ * Mouse and pen buttons are checked against the panning setup,
+ * touch contacts always report the primary button.
+ */
+export const isPointerButtonAllowed = (
+  panning: LibrarySetup["panning"],
+  event: PointerEvent,
+): boolean => {
+  if (event.pointerType === "touch") return true;
+  if (event.button === 0 && !panning.allowLeftClickPan) return false;
+  if (event.button === 1 && !panning.allowMiddleClickPan) return false;
+  if (event.button === 2 && !panning.allowRightClickPan) return false;
+
+  return true;
+};
@@ -0,0 +1,121 @@
+import { PositionType } from "../../models";
+
+export type RotatedSizeType = {
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+};
+
+/**
+ * Rotates point around the (0, 0) origin by given angle in degrees
+ * eg. rotatePoint(10, 0, 90) => { x: 0, y: 10 }
+ */
+export const rotatePoint = (
+  x: number,
+  y: number,
+  rotation: number,
+): PositionType => {
+  if (!rotation) return { x, y };
+
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  return {
+    x: x * cos - y * sin,
+    y: x * sin + y * cos,
+  };
+};
+
+/**
+ * Returns the bounding box of the box rotated around its top-left corner.
+ * Offsets describe where the rotated box starts relative to that corner.
+ */
+export const getRotatedSize = (
+  width: number,
+  height: number,
+  rotation: number,
+): RotatedSizeType => {
+  if (!rotation) return { width, height, offsetX: 0, offsetY: 0 };
+
+  const corners = [
+    rotatePoint(0, 0, rotation),
+    rotatePoint(width, 0, rotation),
+    rotatePoint(0, height, rotation),
+    rotatePoint(width, height, rotation),
+  ];
+
+  const xs = corners.map(({ x }) => x);
+  const ys = corners.map(({ y }) => y);
+  const offsetX = Math.min(...xs);
+  const offsetY = Math.min(...ys);
+
+  return {
+    width: Math.max(...xs) - offsetX,
+    height: Math.max(...ys) - offsetY,
+    offsetX,
+    offsetY,
+  };
+};
+
+/**
+ * Returns the bounding box of the box rotated around its top-left corner and then
+ * scaled separately along the screen axes, like the `scale(x, y) rotate()` transform.
+ */
+export const getTransformedSize = (
+  width: number,
+  height: number,
+  scaleX: number,
+  scaleY: number,
+  rotation: number,
+): RotatedSizeType => {
+  const size = getRotatedSize(width, height, rotation);
+
+  return {
+    width: size.width * scaleX,
+    height: size.height * scaleY,
+    offsetX: size.offsetX * scaleX,
+    offsetY: size.offsetY * scaleY,
+  };
+};
+
+/**
+ * Maps client coordinates to the content coordinates (unscaled and unrotated)
+ */
+export const getContentPosition = (
+  clientX: number,
+  clientY: number,
+  contentComponent: HTMLDivElement,
+  scale: number,
+  rotation: number,
+  scaleX = 1,
+  scaleY = 1,
+): PositionType => {
+  const contentRect = contentComponent.getBoundingClientRect();
+  const axisScaleX = scale * scaleX;
+  const axisScaleY = scale * scaleY;
+  const { offsetX, offsetY } = getTransformedSize(
+    contentComponent.offsetWidth,
+    contentComponent.offsetHeight,
+    axisScaleX,
+    axisScaleY,
+    rotation,
+  );
+
+  return rotatePoint(
+    (clientX - (contentRect.left - offsetX)) / axisScaleX,
+    (clientY - (contentRect.top - offsetY)) / axisScaleY,
+    -rotation,
+  );
+};
+
+/**
+ * Keeps the angle difference in the -180 to 180 degrees range
+ */
+export const normalizeAngle = (angle: number): number => {
+  const normalized = angle % 360;
+  if (normalized > 180) return normalized - 360;
+  if (normalized <= -180) return normalized + 360;
+  return normalized;
+};
@@ -0,0 +1,24 @@
+import { ReactZoomPanPinchContext } from "../../models";
+import { getContext } from "../../utils/context.utils";
+import { handleHistoryRecord } from "../history/history.logic";
+
+/**
+ * Runs when the gesture or the animation finishes. It is skipped while another
+ * gesture or animation is still running, it settles when that one finishes.
+ */
+export const handleTransformSettle = (
+  contextInstance: ReactZoomPanPinchContext,
+): void => {
+  const { isPanning, isWheelPanning, pinchStartScale, animation } =
+    contextInstance;
+
+  if (!contextInstance.isInitialized) return;
+  if (isPanning || isWheelPanning || pinchStartScale !== null || animation) {
+    return;
+  }
+
+  handleHistoryRecord(contextInstance);
+
+  const ctx = getContext(contextInstance);
+  contextInstance.onSettleCallbacks.forEach((callback) => callback(ctx));
+};
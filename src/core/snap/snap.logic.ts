@@ -0,0 +1,48 @@
+import { ReactZoomPanPinchContext } from "../../models";
+import { animate } from "../animations/animations.utils";
+import {
+  getMouseBoundedPosition,
+  handleCalculateBounds,
+} from "../bounds/bounds.utils";
+import {
+  getProjectedPosition,
+  getSnapPosition,
+  isSnapAllowed,
+} from "./snap.utils";
+
+/**
+ * Settles the ended panning on the snap target nearest to its projected landing position.
+ * Returns false when snapping is not configured.
+ */
+export const handleSnapPanning = (
+  contextInstance: ReactZoomPanPinchContext,
+): boolean => {
+  const { wrapperComponent, setup, transformState } = contextInstance;
+  const { limitToBounds, panning, snap } = setup;
+  const { scale, positionX, positionY } = transformState;
+
+  if (!wrapperComponent || !isSnapAllowed(contextInstance)) return false;
+
+  const projected = getProjectedPosition(contextInstance);
+  const target = getSnapPosition(contextInstance, projected);
+
+  const bounds =
+    contextInstance.bounds || handleCalculateBounds(contextInstance, scale);
+  const { x, y } = getMouseBoundedPosition(
+    panning.lockAxisX ? positionX : target.x,
+    panning.lockAxisY ? positionY : target.y,
+    bounds,
+    limitToBounds,
+    0,
+    0,
+    wrapperComponent,
+  );
+
+  animate(
+    contextInstance,
+    { scale, positionX: x, positionY: y },
+    snap.animationTime,
+    snap.animationType,
+  );
+  return true;
+};
@@ -0,0 +1,113 @@
+import { PositionType, ReactZoomPanPinchContext } from "../../models";
+import { getContext } from "../../utils/context.utils";
+import { getVelocityMoveTime } from "../pan/velocity.utils";
+import { getViewportArea } from "../viewport/viewport.utils";
+
+// The velocity animation moves by the fading part of the last move every frame
+const velocityFrameTime = 16;
+const velocityFadeArea = 0.5;
+
+export const isSnapAllowed = (
+  contextInstance: ReactZoomPanPinchContext,
+): boolean => {
+  const { disabled, gridX, gridY, pageSelector } = contextInstance.setup.snap;
+  const { getSnapTargets } = contextInstance.props;
+
+  if (disabled) return false;
+
+  return Boolean(gridX || gridY || pageSelector || getSnapTargets);
+};
+
+/**
+ * Returns the position where the velocity animation would leave the content
+ */
+export const getProjectedPosition = (
+  contextInstance: ReactZoomPanPinchContext,
+): PositionType => {
+  const { transformState, velocity, setup } = contextInstance;
+  const { positionX, positionY } = transformState;
+
+  if (!velocity || setup.panning.velocityDisabled) {
+    return { x: positionX, y: positionY };
+  }
+
+  const frames =
+    getVelocityMoveTime(contextInstance, velocity.total) / velocityFrameTime;
+  const distance = frames * velocityFadeArea;
+
+  return {
+    x: positionX + velocity.velocityX * distance,
+    y: positionY + velocity.velocityY * distance,
+  };
+};
+
+/**
+ * Positions which align the top-left corner of the pages with the viewport,
+ * below the insets
+ */
+const getPageTargets = (
+  contextInstance: ReactZoomPanPinchContext,
+): PositionType[] => {
+  const { wrapperComponent, contentComponent, setup } = contextInstance;
+  const { pageSelector } = setup.snap;
+
+  if (!wrapperComponent || !contentComponent || !pageSelector) return [];
+
+  const viewport = getViewportArea(wrapperComponent, setup.viewportInsets);
+  const contentRect = contentComponent.getBoundingClientRect();
+  const pages = Array.from(
+    contentComponent.querySelectorAll<HTMLElement>(pageSelector),
+  );
+
+  return pages.map((page) => {
+    const pageRect = page.getBoundingClientRect();
+
+    return {
+      x: viewport.left + contentRect.left - pageRect.left,
+      y: viewport.top + contentRect.top - pageRect.top,
+    };
+  });
+};
+
+const getGridPosition = (position: number, interval: number, scale: number) => {
+  if (!interval) return position;
+  const gridSize = interval * scale;
+  return Math.round(position / gridSize) * gridSize;
+};
+
+/**
+ * Picks the snap target nearest to the projected position.
+ * The page and the custom targets take precedence over the grid.
+ */
+export const getSnapPosition = (
+  contextInstance: ReactZoomPanPinchContext,
+  projected: PositionType,
+): PositionType => {
+  const { setup, transformState, props } = contextInstance;
+  const { gridX, gridY } = setup.snap;
+  const { scale, scaleX, scaleY } = transformState;
+
+  const targets = [
+    ...getPageTargets(contextInstance),
+    ...(props.getSnapTargets?.(getContext(contextInstance), projected) ?? []),
+  ];
+
+  if (targets.length) {
+    return targets.reduce((nearest, target) => {
+      const distance = Math.hypot(
+        target.x - projected.x,
+        target.y - projected.y,
+      );
+      const nearestDistance = Math.hypot(
+        nearest.x - projected.x,
+        nearest.y - projected.y,
+      );
+      return distance < nearestDistance ? target : nearest;
+    });
+  }
+
+  return {
+    x: getGridPosition(projected.x, gridX, scale * scaleX),
+    y: getGridPosition(projected.y, gridY, scale * scaleY),
+  };
+};
@@ -0,0 +1,176 @@
+import {
+  PositionType,
+  ReactZoomPanPinchContext,
+  RectType,
+  StateType,
+  ViewportAreaType,
+  ViewportInsetsType,
+} from "../../models";
+import {
+  screenToContent,
+  wrapperToContent,
+} from "../coordinates/coordinates.utils";
+import { rotatePoint } from "../rotation/rotation.utils";
+
+const noInsets: ViewportInsetsType = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/**
+ * Returns the part of the wrapper (in the wrapper coordinates) which is not covered by the overlay UI
+ */
+export const getViewportArea = (
+  wrapperComponent: HTMLDivElement,
+  insets: ViewportInsetsType = noInsets,
+): ViewportAreaType => {
+  const { top, right, bottom, left } = insets;
+
+  return {
+    left,
+    top,
+    width: Math.max(0, wrapperComponent.offsetWidth - left - right),
+    height: Math.max(0, wrapperComponent.offsetHeight - top - bottom),
+  };
+};
+
+/**
+ * Returns the content point (in the content coordinates) which is visible in the viewport center,
+ * for the current or the given transformation
+ */
+export const getViewportCenter = (
+  contextInstance: ReactZoomPanPinchContext,
+  state: StateType = contextInstance.transformState,
+): PositionType | null => {
+  const { wrapperComponent } = contextInstance;
+  const {
+    scale,
+    positionX,
+    positionY,
+    rotation = 0,
+    scaleX = 1,
+    scaleY = 1,
+  } = state;
+
+  if (!wrapperComponent) return null;
+
+  const { left, top, width, height } = getViewportArea(
+    wrapperComponent,
+    contextInstance.setup.viewportInsets,
+  );
+
+  return rotatePoint(
+    (left + width / 2 - positionX) / (scale * scaleX),
+    (top + height / 2 - positionY) / (scale * scaleY),
+    -rotation,
+  );
+};
+
+/**
+ * Calculates the transformation which shows the content point in the viewport center
+ */
+export const calculateCenteredTransform = (
+  contextInstance: ReactZoomPanPinchContext,
+  x: number,
+  y: number,
+  scale: number,
+  rotation = contextInstance.transformState.rotation,
+  scaleX = contextInstance.transformState.scaleX,
+  scaleY = contextInstance.transformState.scaleY,
+): StateType | null => {
+  const { wrapperComponent } = contextInstance;
+
+  if (!wrapperComponent) return null;
+
+  const point = rotatePoint(x, y, rotation);
+  const { left, top, width, height } = getViewportArea(
+    wrapperComponent,
+    contextInstance.setup.viewportInsets,
+  );
+
+  return {
+    scale,
+    positionX: left + width / 2 - point.x * scale * scaleX,
+    positionY: top + height / 2 - point.y * scale * scaleY,
+    rotation,
+    scaleX,
+    scaleY,
+  };
+};
+
+export const getBoundingRect = (points: PositionType[]): RectType => {
+  const xs = points.map(({ x }) => x);
+  const ys = points.map(({ y }) => y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...xs) - left,
+    height: Math.max(...ys) - top,
+  };
+};
+
+/**
+ * Returns the visible part of the content in the content coordinates.
+ * For the rotated content it is the bounding box of the visible area.
+ */
+export const getVisibleRect = (
+  contextInstance: ReactZoomPanPinchContext,
+): RectType | null => {
+  const { wrapperComponent, setup } = contextInstance;
+
+  if (!wrapperComponent) return null;
+
+  const { left, top, width, height } = getViewportArea(
+    wrapperComponent,
+    setup.viewportInsets,
+  );
+  const corners = [
+    { x: left, y: top },
+    { x: left + width, y: top },
+    { x: left, y: top + height },
+    { x: left + width, y: top + height },
+  ];
+
+  return getBoundingRect(
+    corners.map((corner) => wrapperToContent(contextInstance, corner)),
+  );
+};
+
+/**
+ * Checks if any part of the rect (in the content coordinates) is visible
+ */
+export const isRectVisible = (
+  contextInstance: ReactZoomPanPinchContext,
+  rect: RectType,
+): boolean => {
+  const visibleRect = getVisibleRect(contextInstance);
+
+  if (!visibleRect) return false;
+
+  return (
+    rect.x < visibleRect.x + visibleRect.width &&
+    rect.x + rect.width > visibleRect.x &&
+    rect.y < visibleRect.y + visibleRect.height &&
+    rect.y + rect.height > visibleRect.y
+  );
+};
+
+export const isElementVisible = (
+  contextInstance: ReactZoomPanPinchContext,
+  node: Element,
+): boolean => {
+  const { left, top, right, bottom } = node.getBoundingClientRect();
+  const corners = [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: left, y: bottom },
+    { x: right, y: bottom },
+  ];
+
+  return isRectVisible(
+    contextInstance,
+    getBoundingRect(
+      corners.map((corner) => screenToContent(contextInstance, corner)),
+    ),
+  );
+};
@@ -3,7 +3,7 @@ import { ReactZoomPanPinchContext } from "../../models";
 import { handleCallback } from "../../utils/callback.utils";
 import { getContext } from "../../utils/context.utils";
 import { cancelTimeout } from "../../utils/helpers.utils";
-import { handleCancelAnimation } from "../animations/animations.utils";
+import { animate, handleCancelAnimation } from "../animations/animations.utils";
 import { handleCalculateBounds } from "../bounds/bounds.utils";
 import {
   getDelta,
@@ -11,8 +11,17 @@ import {
   handleWheelZoomStop,
   getMousePosition,
 } from "./wheel.utils";
-import { handleAlignToScaleBounds } from "../zoom/zoom.logic";
-import { handleCalculateZoomPositions } from "../zoom/zoom.utils";
+import {
+  handleAlignToScaleBounds,
+  handleZoomToPoint,
+} from "../zoom/zoom.logic";
+import { handleTransformSettle } from "../settle/settle.logic";
+import {
+  getAxisScale,
+  getAxisZoomState,
+  getNextZoomLevel,
+  handleCalculateZoomPositions,
+} from "../zoom/zoom.utils";
 
 const wheelStopEventTime = 160;
 const wheelAnimationTime = 100;
@@ -30,6 +39,57 @@ export const handleWheelStart = (
   }
 };
 
+const handleWheelZoomLevel = (
+  contextInstance: ReactZoomPanPinchContext,
+  event: WheelEvent,
+  delta: number,
+): void => {
+  const { onWheel, onZoom } = contextInstance.props;
+  const { contentComponent, setup, transformState } = contextInstance;
+  const { scale, rotation, scaleX, scaleY } = transformState;
+  const { zoomLevels, minScale, maxScale, zoomAnimation } = setup;
+
+  // Every level step is animated, the wheel events are skipped until it lands
+  if (!contentComponent || contextInstance.animation) return;
+
+  const newScale = getNextZoomLevel(
+    zoomLevels,
+    scale,
+    delta,
+    minScale,
+    maxScale,
+  );
+
+  if (newScale === scale) return;
+
+  const mousePosition = getMousePosition(
+    event,
+    contentComponent,
+    scale,
+    rotation,
+    scaleX,
+    scaleY,
+  );
+  const targetState = handleZoomToPoint(
+    contextInstance,
+    newScale,
+    mousePosition.x,
+    mousePosition.y,
+  );
+
+  contextInstance.previousWheelEvent = event;
+
+  animate(
+    contextInstance,
+    targetState,
+    zoomAnimation.animationTime,
+    zoomAnimation.animationType,
+  );
+
+  handleCallback(getContext(contextInstance), event, onWheel);
+  handleCallback(getContext(contextInstance), event, onZoom);
+};
+
 export const handleWheelZoom = (
   contextInstance: ReactZoomPanPinchContext,
   event: WheelEvent,
@@ -37,7 +97,7 @@ export const handleWheelZoom = (
   const { onWheel, onZoom } = contextInstance.props;
 
   const { contentComponent, setup, transformState } = contextInstance;
-  const { scale } = transformState;
+  const { rotation, scaleX, scaleY } = transformState;
   const {
     limitToBounds,
     centerZoomedOut,
@@ -47,7 +107,7 @@ export const handleWheelZoom = (
     smooth,
   } = setup;
   const { size, disabled } = zoomAnimation;
-  const { step, smoothStep } = wheel;
+  const { step, smoothStep, axis } = wheel;
 
   if (!contentComponent) {
     throw new Error("Component not mounted");
@@ -57,8 +117,15 @@ export const handleWheelZoom = (
   event.stopPropagation();
 
   const delta = getDelta(event, null);
+
+  // Zoom levels apply to the uniform scale only
+  if (setup.zoomLevels.length && axis === "both") {
+    handleWheelZoomLevel(contextInstance, event, delta);
+    return;
+  }
+
   const zoomStep = smooth ? smoothStep * Math.abs(event.deltaY) : step;
-  const newScale = handleCalculateWheelZoom(
+  const newAxisScale = handleCalculateWheelZoom(
     contextInstance,
     delta,
     zoomStep,
@@ -66,11 +133,30 @@ export const handleWheelZoom = (
   );
 
   // if scale not change
-  if (scale === newScale) return;
+  if (getAxisScale(transformState, axis) === newAxisScale) return;
 
-  const bounds = handleCalculateBounds(contextInstance, newScale);
+  const {
+    scale: newScale,
+    scaleX: newScaleX,
+    scaleY: newScaleY,
+  } = getAxisZoomState(transformState, axis, newAxisScale);
+
+  const bounds = handleCalculateBounds(
+    contextInstance,
+    newScale,
+    rotation,
+    newScaleX,
+    newScaleY,
+  );
 
-  const mousePosition = getMousePosition(event, contentComponent, scale);
+  const mousePosition = getMousePosition(
+    event,
+    contentComponent,
+    transformState.scale,
+    rotation,
+    scaleX,
+    scaleY,
+  );
 
   const isPaddingDisabled =
     disabled || size === 0 || centerZoomedOut || disablePadding;
@@ -83,11 +169,21 @@ export const handleWheelZoom = (
     newScale,
     bounds,
     isLimitedToBounds,
+    rotation,
+    newScaleX,
+    newScaleY,
   );
 
   contextInstance.previousWheelEvent = event;
 
-  contextInstance.setTransformState(newScale, x, y);
+  contextInstance.setTransformState(
+    newScale,
+    x,
+    y,
+    rotation,
+    newScaleX,
+    newScaleY,
+  );
 
   handleCallback(getContext(contextInstance), event, onWheel);
   handleCallback(getContext(contextInstance), event, onZoom);
@@ -103,8 +199,12 @@ export const handleWheelStop = (
   cancelTimeout(contextInstance.wheelAnimationTimer);
   contextInstance.wheelAnimationTimer = setTimeout(() => {
     if (!contextInstance.mounted) return;
-    handleAlignToScaleBounds(contextInstance, event.x, event.y);
+    // The zoom level animation lands in the bounds on its own
+    if (!contextInstance.animation) {
+      handleAlignToScaleBounds(contextInstance, event.x, event.y);
+    }
     contextInstance.wheelAnimationTimer = null;
+    handleTransformSettle(contextInstance);
   }, wheelAnimationTime);
 
   // Wheel stop event
@@ -1,6 +1,7 @@
 import { ReactZoomPanPinchContext, PositionType } from "../../models";
 import { checkIsNumber, isExcludedNode, roundNumber } from "../../utils";
-import { checkZoomBounds } from "../zoom/zoom.utils";
+import { getContentPosition } from "../rotation/rotation.utils";
+import { checkZoomBounds, getAxisScale } from "../zoom/zoom.utils";
 
 export const isWheelAllowed = (
   contextInstance: ReactZoomPanPinchContext,
@@ -45,21 +46,21 @@ export function getMousePosition(
   event: WheelEvent | MouseEvent | TouchEvent,
   contentComponent: HTMLDivElement,
   scale: number,
+  rotation = 0,
+  scaleX = 1,
+  scaleY = 1,
 ): PositionType {
-  const contentRect = contentComponent.getBoundingClientRect();
-
-  let mouseX = 0;
-  let mouseY = 0;
-
-  if ("clientX" in event) {
-    // mouse position x, y over wrapper component
-    mouseX = (event.clientX - contentRect.left) / scale;
-    mouseY = (event.clientY - contentRect.top) / scale;
-  } else {
-    const touch = event.touches[0];
-    mouseX = (touch.clientX - contentRect.left) / scale;
-    mouseY = (touch.clientY - contentRect.top) / scale;
-  }
+  // mouse position x, y over wrapper component
+  const { clientX, clientY } = "clientX" in event ? event : event.touches[0];
+  const { x: mouseX, y: mouseY } = getContentPosition(
+    clientX,
+    clientY,
+    contentComponent,
+    scale,
+    rotation,
+    scaleX,
+    scaleY,
+  );
 
   if (Number.isNaN(mouseX) || Number.isNaN(mouseY))
     console.error("No mouse or touch offset found");
@@ -77,19 +78,21 @@ export const handleCalculateWheelZoom = (
   disable: boolean,
   getTarget?: boolean,
 ): number => {
-  const { scale } = contextInstance.transformState;
-  const { wrapperComponent, setup } = contextInstance;
-  const { maxScale, minScale, zoomAnimation, disablePadding } = setup;
+  const { wrapperComponent, setup, transformState } = contextInstance;
+  const { maxScale, minScale, zoomAnimation, disablePadding, wheel } = setup;
   const { size, disabled } = zoomAnimation;
 
   if (!wrapperComponent) {
     throw new Error("Wrapper is not mounted");
   }
 
+  // The single axis zoom changes only the scale of that axis
+  const scale = getAxisScale(transformState, wheel.axis);
   const targetScale = scale + delta * step;
 
   if (getTarget) return targetScale;
-  const paddingEnabled = disable ? false : !disabled;
+  // Zoom padding animates the uniform scale back, so the axis zoom has no padding
+  const paddingEnabled = disable || wheel.axis !== "both" ? false : !disabled;
   const newScale = checkZoomBounds(
     roundNumber(targetScale, 3),
     minScale,
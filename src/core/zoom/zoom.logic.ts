@@ -3,7 +3,12 @@ import { roundNumber } from "../../utils";
 import { animate } from "../animations/animations.utils";
 import { handleCalculateBounds } from "../bounds/bounds.utils";
 import { handleAlignToBounds } from "../pan/panning.logic";
-import { checkZoomBounds, handleCalculateZoomPositions } from "./zoom.utils";
+import { getViewportCenter } from "../viewport/viewport.utils";
+import {
+  checkZoomBounds,
+  getNearestZoomLevel,
+  handleCalculateZoomPositions,
+} from "./zoom.utils";
 
 export function handleZoomToPoint(
   contextInstance: ReactZoomPanPinchContext,
@@ -31,7 +36,14 @@ export function handleZoomToPoint(
     limitToBounds,
   );
 
-  return { scale: newScale, positionX: x, positionY: y };
+  return {
+    scale: newScale,
+    positionX: x,
+    positionY: y,
+    rotation: contextInstance.transformState.rotation,
+    scaleX: contextInstance.transformState.scaleX,
+    scaleY: contextInstance.transformState.scaleY,
+  };
 }
 
 export function handleAlignToScaleBounds(
@@ -41,10 +53,12 @@ export function handleAlignToScaleBounds(
 ): void {
   const { scale } = contextInstance.transformState;
   const { wrapperComponent } = contextInstance;
-  const { minScale, limitToBounds, zoomAnimation } = contextInstance.setup;
+  const { minScale, maxScale, limitToBounds, zoomAnimation } =
+    contextInstance.setup;
   const { disabled, animationTime, animationType } = zoomAnimation;
 
-  const isDisabled = disabled || scale >= minScale;
+  // The elastic pinch can leave the scale past both limits
+  const isDisabled = disabled || (scale >= minScale && scale <= maxScale);
 
   if (scale >= 1 || limitToBounds) {
     // fire fit to bounds animation
@@ -58,7 +72,7 @@ export function handleAlignToScaleBounds(
 
   const targetState = handleZoomToPoint(
     contextInstance,
-    minScale,
+    scale < minScale ? minScale : maxScale,
     mouseX,
     mouseY,
   );
@@ -67,3 +81,35 @@ export function handleAlignToScaleBounds(
     animate(contextInstance, targetState, animationTime, animationType);
   }
 }
+
+/**
+ * Animates the scale to the nearest zoom level around the content point, by default the viewport center.
+ * Returns false when there are no zoom levels or the scale is already on the level.
+ */
+export function handleSnapToZoomLevel(
+  contextInstance: ReactZoomPanPinchContext,
+  mouseX?: number,
+  mouseY?: number,
+): boolean {
+  const { scale } = contextInstance.transformState;
+  const { zoomLevels, minScale, maxScale, zoomAnimation } =
+    contextInstance.setup;
+  const { animationTime, animationType } = zoomAnimation;
+
+  if (!zoomLevels.length) return false;
+
+  const level = getNearestZoomLevel(zoomLevels, scale, minScale, maxScale);
+  const center = getViewportCenter(contextInstance);
+
+  if (level === scale || !center) return false;
+
+  const targetState = handleZoomToPoint(
+    contextInstance,
+    level,
+    mouseX ?? center.x,
+    mouseY ?? center.y,
+  );
+
+  animate(contextInstance, targetState, animationTime, animationType);
+  return true;
+}
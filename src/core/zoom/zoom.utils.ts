@@ -2,8 +2,11 @@ import {
   BoundsType,
   PositionType,
   ReactZoomPanPinchContext,
+  ReactZoomPanPinchState,
+  ZoomAxisType,
 } from "../../models";
 import { getMouseBoundedPosition } from "../bounds/bounds.utils";
+import { rotatePoint } from "../rotation/rotation.utils";
 
 export function handleCalculateZoomPositions(
   contextInstance: ReactZoomPanPinchContext,
@@ -12,18 +15,28 @@ export function handleCalculateZoomPositions(
   newScale: number,
   bounds: BoundsType,
   limitToBounds: boolean,
+  newRotation?: number,
+  newScaleX?: number,
+  newScaleY?: number,
 ): PositionType {
-  const { scale, positionX, positionY } = contextInstance.transformState;
-
-  const scaleDifference = newScale - scale;
+  const { scale, positionX, positionY, rotation, scaleX, scaleY } =
+    contextInstance.transformState;
 
   if (typeof mouseX !== "number" || typeof mouseY !== "number") {
     console.error("Mouse X and Y position were not provided!");
     return { x: positionX, y: positionY };
   }
 
-  const calculatedPositionX = positionX - mouseX * scaleDifference;
-  const calculatedPositionY = positionY - mouseY * scaleDifference;
+  // keep the content point under the mouse in the same place
+  const currentPoint = rotatePoint(mouseX, mouseY, rotation);
+  const newPoint = rotatePoint(mouseX, mouseY, newRotation ?? rotation);
+  const newAxisScaleX = newScale * (newScaleX ?? scaleX);
+  const newAxisScaleY = newScale * (newScaleY ?? scaleY);
+
+  const calculatedPositionX =
+    positionX + currentPoint.x * scale * scaleX - newPoint.x * newAxisScaleX;
+  const calculatedPositionY =
+    positionY + currentPoint.y * scale * scaleY - newPoint.y * newAxisScaleY;
 
   // do not limit to bounds when there is padding animation,
   // it causes animation strange behaviour
@@ -56,3 +69,83 @@ export function checkZoomBounds(
     return minScaleWithPadding;
   return zoom;
 }
+
+/**
+ * Returns the scale of the zoomed axis, the uniform scale for the both axes
+ */
+export function getAxisScale(
+  transformState: ReactZoomPanPinchState,
+  axis: ZoomAxisType,
+): number {
+  const { scale, scaleX, scaleY } = transformState;
+
+  if (axis === "x") return scale * scaleX;
+  if (axis === "y") return scale * scaleY;
+  return scale;
+}
+
+/**
+ * Splits the new scale of the zoomed axis into the uniform scale and the axis scales.
+ * Zooming the single axis keeps the uniform scale and stretches only that axis.
+ */
+export function getAxisZoomState(
+  transformState: ReactZoomPanPinchState,
+  axis: ZoomAxisType,
+  newAxisScale: number,
+): Pick<ReactZoomPanPinchState, "scale" | "scaleX" | "scaleY"> {
+  const { scale, scaleX, scaleY } = transformState;
+
+  if (axis === "x") return { scale, scaleX: newAxisScale / scale, scaleY };
+  if (axis === "y") return { scale, scaleX, scaleY: newAxisScale / scale };
+  return { scale: newAxisScale, scaleX, scaleY };
+}
+
+// Covers the scale rounding, so the rounded level is not stepped to again
+const zoomLevelEpsilon = 0.01;
+
+const getSortedZoomLevels = (
+  zoomLevels: number[],
+  minScale: number,
+  maxScale: number,
+): number[] =>
+  zoomLevels
+    .filter((level) => level >= minScale && level <= maxScale)
+    .sort((a, b) => a - b);
+
+/**
+ * Returns the next zoom level in the zoom direction.
+ * The scale doesn't change when there is no further level.
+ */
+export function getNextZoomLevel(
+  zoomLevels: number[],
+  scale: number,
+  delta: number,
+  minScale: number,
+  maxScale: number,
+): number {
+  const levels = getSortedZoomLevels(zoomLevels, minScale, maxScale);
+
+  if (delta > 0) {
+    return levels.find((level) => level > scale + zoomLevelEpsilon) ?? scale;
+  }
+
+  const lowerLevels = levels.filter(
+    (level) => level < scale - zoomLevelEpsilon,
+  );
+  return lowerLevels[lowerLevels.length - 1] ?? scale;
+}
+
+export function getNearestZoomLevel(
+  zoomLevels: number[],
+  scale: number,
+  minScale: number,
+  maxScale: number,
+): number {
+  const levels = getSortedZoomLevels(zoomLevels, minScale, maxScale);
+
+  return levels.reduce(
+    (nearest, level) =>
+      Math.abs(level - scale) < Math.abs(nearest - scale) ? level : nearest,
+    levels[0] ?? scale,
+  );
+}
@@ -3,3 +3,7 @@ export * from "./use-transform-init";
 export * from "./use-transform-effect";
 export * from "./use-transform-context";
 export * from "./use-transform-component";
+export * from "./use-transform-url-sync";
+export * from "./use-transform-coordinates";
+export * from "./use-visible-rect";
+export * from "./use-scale-threshold";
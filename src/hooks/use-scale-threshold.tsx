@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from "react";
+
+import { useTransformContext } from "./use-transform-context";
+
+const getScaleThreshold = (
+  thresholds: number[],
+  scale: number,
+): number | null => {
+  return thresholds.reduce<number | null>((reached, threshold) => {
+    if (scale < threshold) return reached;
+    return reached === null || threshold > reached ? threshold : reached;
+  }, null);
+};
+
+/**
+ * Returns the highest threshold reached by the scale, or null below all of them.
+ * The component re-renders only when the scale crosses one of the thresholds.
+ */
+export const useScaleThreshold = (thresholds: number[]): number | null => {
+  const libraryContext = useTransformContext();
+  const [threshold, setThreshold] = useState(() =>
+    getScaleThreshold(thresholds, libraryContext.transformState.scale),
+  );
+  const thresholdRef = useRef(threshold);
+  // Inline arrays would restart the subscription on every render
+  const thresholdsKey = thresholds.join(",");
+
+  useEffect(() => {
+    const update = () => {
+      const value = getScaleThreshold(
+        thresholds,
+        libraryContext.transformState.scale,
+      );
+
+      if (value !== thresholdRef.current) {
+        thresholdRef.current = value;
+        setThreshold(value);
+      }
+    };
+
+    update();
+    return libraryContext.onChange(update);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [libraryContext, thresholdsKey]);
+
+  return threshold;
+};
@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+
+import { ReactZoomPanPinchContext } from "../models";
+import { useTransformContext } from "./use-transform-context";
+
+export type TransformCoordinatesType = Pick<
+  ReactZoomPanPinchContext,
+  | "screenToContent"
+  | "contentToScreen"
+  | "wrapperToContent"
+  | "contentToWrapper"
+  | "getTransformMatrix"
+  | "getInverseTransformMatrix"
+>;
+
+/**
+ * Returns the converters between the screen, wrapper and content coordinates.
+ * They always use the current transformation, so the component doesn't re-render on its change.
+ */
+export const useTransformCoordinates = (): TransformCoordinatesType => {
+  const libraryContext = useTransformContext();
+
+  return useMemo(
+    () => ({
+      screenToContent: libraryContext.screenToContent,
+      contentToScreen: libraryContext.contentToScreen,
+      wrapperToContent: libraryContext.wrapperToContent,
+      contentToWrapper: libraryContext.contentToWrapper,
+      getTransformMatrix: libraryContext.getTransformMatrix,
+      getInverseTransformMatrix: libraryContext.getInverseTransformMatrix,
+    }),
+    [libraryContext],
+  );
+};
@@ -0,0 +1,91 @@
+import { useEffect } from "react";
+
+import { ReactZoomPanPinchContext } from "../models";
+import {
+  parseUrlViewport,
+  readUrlParam,
+  stringifyUrlViewport,
+  UrlSyncModeType,
+  writeUrlParam,
+} from "../utils";
+import { setTransform } from "../core/handlers/handlers.logic";
+import {
+  calculateCenteredTransform,
+  getViewportCenter,
+} from "../core/viewport/viewport.utils";
+import { checkZoomBounds } from "../core/zoom/zoom.utils";
+import { useTransformContext } from "./use-transform-context";
+import { useTransformInit } from "./use-transform-init";
+
+export type TransformUrlSyncOptions = {
+  param?: string;
+  mode?: UrlSyncModeType;
+};
+
+const restoreUrlViewport = (
+  contextInstance: ReactZoomPanPinchContext,
+  param: string,
+  mode: UrlSyncModeType,
+) => {
+  const value = readUrlParam(param, mode);
+  const viewport = value ? parseUrlViewport(value) : null;
+
+  if (!viewport) return;
+
+  const { minScale, maxScale } = contextInstance.setup;
+  const scale = checkZoomBounds(viewport.scale, minScale, maxScale, 0, false);
+  const targetState = calculateCenteredTransform(
+    contextInstance,
+    viewport.x,
+    viewport.y,
+    scale,
+  );
+
+  if (!targetState) return;
+
+  setTransform(contextInstance)(
+    targetState.positionX,
+    targetState.positionY,
+    targetState.scale,
+    0,
+  );
+};
+
+/**
+ * Stores the visible content center and the scale in the url
+ * and restores them when the component initializes.
+ */
+export const useTransformUrlSync = ({
+  param = "view",
+  mode = "hash",
+}: TransformUrlSyncOptions = {}): void => {
+  const libraryContext = useTransformContext();
+
+  useTransformInit(({ instance }) => {
+    restoreUrlViewport(instance, param, mode);
+  });
+
+  useEffect(() => {
+    // Written when the gesture or the animation finishes, not on every frame
+    const unmount = libraryContext.onSettle(({ instance, state }) => {
+      const center = getViewportCenter(instance);
+      if (center) {
+        writeUrlParam(
+          param,
+          stringifyUrlViewport({ ...center, scale: state.scale }),
+          mode,
+        );
+      }
+    });
+
+    const handlePopState = () => {
+      restoreUrlViewport(libraryContext, param, mode);
+    };
+    window.addEventListener("popstate", handlePopState);
+
+    return () => {
+      unmount();
+      window.removeEventListener("popstate", handlePopState);
+    };
+  }, [libraryContext, param, mode]);
+};
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+
+import { RectType } from "../models";
+import { cancelTimeout } from "../utils";
+import { getVisibleRect } from "../core/viewport/viewport.utils";
+import { useTransformContext } from "./use-transform-context";
+import { useTransformInit } from "./use-transform-init";
+
+export type VisibleRectOptions = {
+  throttle?: number;
+};
+
+/**
+ * Returns the visible part of the content in the content coordinates,
+ * updated when the transformation changes, at most once per the throttle time.
+ */
+export const useVisibleRect = ({
+  throttle = 0,
+}: VisibleRectOptions = {}): RectType | null => {
+  const libraryContext = useTransformContext();
+  const [visibleRect, setVisibleRect] = useState<RectType | null>(() =>
+    getVisibleRect(libraryContext),
+  );
+
+  useTransformInit(({ instance }) => {
+    setVisibleRect(getVisibleRect(instance));
+  });
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let lastUpdate = 0;
+
+    const update = () => {
+      timer = null;
+      lastUpdate = Date.now();
+      setVisibleRect(getVisibleRect(libraryContext));
+    };
+
+    const unmount = libraryContext.onChange(() => {
+      const remainingTime = lastUpdate + throttle - Date.now();
+
+      if (remainingTime <= 0) {
+        cancelTimeout(timer);
+        update();
+      } else if (!timer) {
+        // The trailing update keeps the last transformation
+        timer = setTimeout(update, remainingTime);
+      }
+    });
+
+    return () => {
+      unmount();
+      cancelTimeout(timer);
+    };
+  }, [libraryContext, throttle]);
+
+  return visibleRect;
+};
@@ -8,7 +8,24 @@ export type PositionType = {
   y: number;
 };
 
-export type StateType = { scale: number; positionX: number; positionY: number };
+export type RectType = PositionType & SizeType;
+
+export type PointerPositionType = {
+  identifier: number;
+  clientX: number;
+  clientY: number;
+  pageX: number;
+  pageY: number;
+};
+
+export type StateType = {
+  scale: number;
+  positionX: number;
+  positionY: number;
+  rotation?: number;
+  scaleX?: number;
+  scaleY?: number;
+};
 
 export type VelocityType = {
   velocityX: number;
@@ -16,6 +33,20 @@ export type VelocityType = {
   total: number;
 };
 
+export type ViewportInsetsType = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type ViewportAreaType = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
 export type BoundsType = {
   minPositionX: number;
   maxPositionX: number;
@@ -1,20 +1,82 @@
-import React from "react";
+import type React from "react";
 
 import { animations } from "../core/animations/animations.constants";
+import { boundsStrategies } from "../core/bounds/bounds.constants";
+import { ComponentsSizesType } from "../core/bounds/bounds.types";
 import {
+  canGoBack,
+  canGoForward,
   centerView,
+  goBack,
+  goForward,
   resetTransform,
   setTransform,
   zoomIn,
   zoomOut,
   zoomToElement,
+  zoomToElements,
   zoomToPoint,
+  zoomToRect,
 } from "../core/handlers/handlers.logic";
 import { ZoomPanPinch } from "../core/instance.core";
+import { BoundsType, PositionType } from "./calculations.model";
 import { DeepNonNullable } from "./helpers.model";
 
 export type ReactZoomPanPinchContext = typeof ZoomPanPinch.prototype;
 
+export type AnimationResultType = {
+  state: ReactZoomPanPinchState;
+  completed: boolean;
+};
+
+export type ZoomToElementPaddingType = number | `${number}%`;
+
+export type ZoomToElementOptionsType = {
+  scale?: number;
+  padding?: ZoomToElementPaddingType;
+  // "keep-current-if-visible" keeps the transformation when the whole node is
+  // already visible, otherwise the node is centered
+  align?: "center" | "top-left" | "keep-current-if-visible";
+  fit?: "contain" | "cover" | "width" | "height";
+  maxScale?: number;
+  nearest?: boolean;
+};
+
+export type EasingFunctionType = (t: number) => number;
+
+export type SpringAnimationType = {
+  type: "spring";
+  stiffness?: number;
+  damping?: number;
+  mass?: number;
+};
+
+export type EasingTypeOption =
+  | keyof typeof animations
+  | EasingFunctionType
+  | `cubic-bezier(${string})`;
+
+export type FlyToAnimationType = {
+  type: "flyTo";
+  curvature?: number;
+  speed?: number;
+  easing?: EasingTypeOption;
+};
+
+export type AnimationTypeOption =
+  | EasingTypeOption
+  | SpringAnimationType
+  | FlyToAnimationType;
+
+export type BoundsStrategyFunctionType = (
+  state: ReactZoomPanPinchState,
+  sizes: ComponentsSizesType,
+) => BoundsType;
+
+export type BoundsStrategyOption =
+  | keyof typeof boundsStrategies
+  | BoundsStrategyFunctionType;
+
 export type ReactZoomPanPinchContextState = {
   instance: ReactZoomPanPinchContext;
   state: ReactZoomPanPinchState;
@@ -32,8 +94,15 @@ export type ReactZoomPanPinchState = {
   scale: number;
   positionX: number;
   positionY: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
 };
 
+export type ZoomAxisType = "both" | "x" | "y";
+
+export type PinchAxisType = ZoomAxisType | "dominant";
+
 export type ReactZoomPanPinchHandlers = {
   zoomIn: ReturnType<typeof zoomIn>;
   zoomOut: ReturnType<typeof zoomOut>;
@@ -41,7 +110,13 @@ export type ReactZoomPanPinchHandlers = {
   resetTransform: ReturnType<typeof resetTransform>;
   centerView: ReturnType<typeof centerView>;
   zoomToElement: ReturnType<typeof zoomToElement>;
+  zoomToElements: ReturnType<typeof zoomToElements>;
+  zoomToRect: ReturnType<typeof zoomToRect>;
   zoomToPoint: ReturnType<typeof zoomToPoint>;
+  goBack: ReturnType<typeof goBack>;
+  goForward: ReturnType<typeof goForward>;
+  canGoBack: ReturnType<typeof canGoBack>;
+  canGoForward: ReturnType<typeof canGoForward>;
 };
 
 export type ReactZoomPanPinchRefProps = {
@@ -56,6 +131,17 @@ export type ReactZoomPanPinchProps = {
   initialScale?: number;
   initialPositionX?: number;
   initialPositionY?: number;
+  initialRotation?: number;
+  initialScaleX?: number;
+  initialScaleY?: number;
+  transform?: {
+    scale: number;
+    positionX: number;
+    positionY: number;
+    rotation?: number;
+    scaleX?: number;
+    scaleY?: number;
+  };
   disabled?: boolean;
   minPositionX?: null | number;
   maxPositionX?: null | number;
@@ -63,12 +149,29 @@ export type ReactZoomPanPinchProps = {
   maxPositionY?: null | number;
   minScale?: number;
   maxScale?: number;
+  zoomLevels?: number[];
   limitToBounds?: boolean;
   centerZoomedOut?: boolean;
+  boundsStrategy?: BoundsStrategyOption;
+  boundsMargin?: number;
   centerOnInit?: boolean;
   disablePadding?: boolean;
-  customTransform?: (x: number, y: number, scale: number) => string;
+  viewportInsets?: {
+    top?: number;
+    right?: number;
+    bottom?: number;
+    left?: number;
+  };
+  customTransform?: (
+    x: number,
+    y: number,
+    scale: number,
+    rotation: number,
+    scaleX: number,
+    scaleY: number,
+  ) => string;
   smooth?: boolean;
+  inputMode?: "legacy" | "pointer";
   wheel?: {
     step?: number;
     smoothStep?: number;
@@ -77,6 +180,7 @@ export type ReactZoomPanPinchProps = {
     touchPadDisabled?: boolean;
     activationKeys?: string[];
     excluded?: string[];
+    axis?: ZoomAxisType;
   };
   panning?: {
     disabled?: boolean;
@@ -93,21 +197,55 @@ export type ReactZoomPanPinchProps = {
   pinch?: {
     step?: number;
     disabled?: boolean;
+    allowRotation?: boolean;
     excluded?: string[];
+    axis?: PinchAxisType;
   };
   doubleClick?: {
     disabled?: boolean;
     step?: number;
     mode?: "zoomIn" | "zoomOut" | "reset" | "toggle";
     animationTime?: number;
-    animationType?: keyof typeof animations;
+    animationType?: AnimationTypeOption;
+    excluded?: string[];
+  };
+  keyboard?: {
+    disabled?: boolean;
+    panStep?: number;
+    zoomStep?: number;
+    animationTime?: number;
+    animationType?: AnimationTypeOption;
+    panUpKeys?: string[];
+    panDownKeys?: string[];
+    panLeftKeys?: string[];
+    panRightKeys?: string[];
+    zoomInKeys?: string[];
+    zoomOutKeys?: string[];
+    resetKeys?: string[];
+    fitKeys?: string[];
     excluded?: string[];
   };
+  history?: {
+    disabled?: boolean;
+    limit?: number;
+  };
+  snap?: {
+    disabled?: boolean;
+    gridX?: number;
+    gridY?: number;
+    pageSelector?: string;
+    animationTime?: number;
+    animationType?: AnimationTypeOption;
+  };
+  getSnapTargets?: (
+    ref: ReactZoomPanPinchRef,
+    position: PositionType,
+  ) => PositionType[];
   zoomAnimation?: {
     disabled?: boolean;
     size?: number;
     animationTime?: number;
-    animationType?: keyof typeof animations;
+    animationType?: AnimationTypeOption;
   };
   alignmentAnimation?: {
     disabled?: boolean;
@@ -115,13 +253,15 @@ export type ReactZoomPanPinchProps = {
     sizeY?: number;
     animationTime?: number;
     velocityAlignmentTime?: number;
-    animationType?: keyof typeof animations;
+    animationType?: AnimationTypeOption;
+    elastic?: boolean;
+    elasticity?: number;
   };
   velocityAnimation?: {
     disabled?: boolean;
     sensitivity?: number;
     animationTime?: number;
-    animationType?: keyof typeof animations;
+    animationType?: AnimationTypeOption;
     equalToMove?: boolean;
   };
   onWheelStart?: (ref: ReactZoomPanPinchRef, event: WheelEvent) => void;
@@ -139,9 +279,18 @@ export type ReactZoomPanPinchProps = {
     ref: ReactZoomPanPinchRef,
     event: TouchEvent | MouseEvent,
   ) => void;
-  onPinchingStart?: (ref: ReactZoomPanPinchRef, event: TouchEvent) => void;
-  onPinching?: (ref: ReactZoomPanPinchRef, event: TouchEvent) => void;
-  onPinchingStop?: (ref: ReactZoomPanPinchRef, event: TouchEvent) => void;
+  onPinchingStart?: (
+    ref: ReactZoomPanPinchRef,
+    event: TouchEvent | PointerEvent,
+  ) => void;
+  onPinching?: (
+    ref: ReactZoomPanPinchRef,
+    event: TouchEvent | PointerEvent,
+  ) => void;
+  onPinchingStop?: (
+    ref: ReactZoomPanPinchRef,
+    event: TouchEvent | PointerEvent,
+  ) => void;
   onZoomStart?: (
     ref: ReactZoomPanPinchRef,
     event: TouchEvent | MouseEvent,
@@ -153,7 +302,25 @@ export type ReactZoomPanPinchProps = {
   ) => void;
   onTransformed?: (
     ref: ReactZoomPanPinchRef,
-    state: { scale: number; positionX: number; positionY: number },
+    state: {
+      scale: number;
+      positionX: number;
+      positionY: number;
+      rotation: number;
+      scaleX: number;
+      scaleY: number;
+    },
+  ) => void;
+  onTransformChange?: (
+    ref: ReactZoomPanPinchRef,
+    state: {
+      scale: number;
+      positionX: number;
+      positionY: number;
+      rotation: number;
+      scaleX: number;
+      scaleY: number;
+    },
   ) => void;
   onInit?: (ref: ReactZoomPanPinchRef) => void;
 };
@@ -173,6 +340,10 @@ export type LibrarySetup = Pick<
       | "initialScale"
       | "initialPositionX"
       | "initialPositionY"
+      | "initialRotation"
+      | "initialScaleX"
+      | "initialScaleY"
+      | "transform"
       | "minPositionX"
       | "maxPositionX"
       | "minPositionY"
@@ -196,8 +367,10 @@ export type LibrarySetup = Pick<
       | "onZoom"
       | "onZoomStop"
       | "onTransformed"
+      | "onTransformChange"
       | "onInit"
       | "customTransform"
+      | "getSnapTargets"
     >
   >;
 
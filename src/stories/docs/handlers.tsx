@@ -18,74 +18,158 @@ export type ComponentProps = Record<
 
 export const handlersTable: ComponentProps = {
   zoomIn: {
-    type: ["function(step, animationTime, animationName)"],
+    type: [
+      "function(step, animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
     parameters: [
       "step: number = 0.5",
       "animationTime: number = 300",
       "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
     ],
     description: "Function used for zoom in button",
   },
   zoomOut: {
-    type: ["function(step, animationTime, animationName)"],
+    type: [
+      "function(step, animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
     parameters: [
       "step: number = 0.5",
       "animationTime: number = 300",
       "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
     ],
     description: "Function used for zoom out button",
   },
   setTransform: {
-    type: ["function(x, y, scale, animationTime, animationName)"],
+    type: [
+      "function(x, y, scale, animationTime, animationName, rotation, signal): Promise<{ state, completed }>",
+    ],
     parameters: [
       "x: number",
       "y: number",
       "scale: number",
       "animationTime: number = 300",
       "animationName: string = easeOut",
+      "rotation: number = undefined",
+      "signal: AbortSignal = undefined",
     ],
     description: "Function used for custom transformation animation",
   },
   resetTransform: {
-    type: ["function(animationTime, animationName)"],
+    type: [
+      "function(animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
     parameters: [
       "animationTime: number = 300",
       "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
     ],
     description: "Function used for reset button",
   },
   centerView: {
-    type: ["function(scale, animationTime, animationName)"],
+    type: [
+      "function(scale, animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
     parameters: [
       "scale: number = undefined",
       "animationTime: number = 300",
       "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
     ],
     description: "Function used for centering the content component",
   },
   zoomToElement: {
-    type: ["function(node, customZoom, animationTime, animationName)"],
+    type: [
+      "function(node, scaleOrOptions, animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
     parameters: [
       "node: HTMLElement | string",
-      "customScale: number = undefined",
+      "scaleOrOptions: number | { scale, padding, align, fit, maxScale, nearest } = undefined",
       "animationTime: number = 300",
       "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
     ],
     description:
-      "This function make a transition for certain node provided to the function(as node element or it's id string). It allows only to zoom elements with offsetWidth and offsetHeight properties - since SVG's doesn't have those, it is impossible to perform it on such elements.",
+      "This function make a transition for certain node provided to the function(as node element or it's id string). It allows only to zoom elements with offsetWidth and offsetHeight properties - since SVG's doesn't have those, it is impossible to perform it on such elements. The options take the custom scale, the padding in pixels or percents of the viewport ('10%'), the align ('center', 'top-left' or 'keep-current-if-visible' - no change when the node is already visible, otherwise centered), the fit ('contain', 'cover', 'width' or 'height'), the maxScale override and the nearest flag, which scrolls the node minimally into view without zooming, like scrollIntoView({ block: 'nearest' }).",
+  },
+  zoomToElements: {
+    type: [
+      "function(nodes, options, animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
+    parameters: [
+      "nodes: (HTMLElement | string)[]",
+      "options: { scale, padding, align, fit, maxScale, nearest } = undefined",
+      "animationTime: number = 600",
+      "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
+    ],
+    description:
+      "Frames the bounding box of all the provided nodes (elements or their id strings), with the same options as zoomToElement. Nodes outside of the wrapper are skipped.",
+  },
+  zoomToRect: {
+    type: [
+      "function(rect, options, animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
+    parameters: [
+      "rect: { x, y, width, height }",
+      "options: { scale, padding, align, fit, maxScale, nearest } = undefined",
+      "animationTime: number = 600",
+      "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
+    ],
+    description:
+      "Frames the rectangle given in the content coordinates, eg. the selection bounding box or the search hit region, with the same options as zoomToElement.",
   },
   zoomToPoint: {
-    type: ["function(x, y, scale, animationTime, animationName)"],
+    type: [
+      "function(x, y, scale, animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
     parameters: [
       "x: number",
       "y: number",
       "scale: number",
       "animationTime: number = 300",
       "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
     ],
     description:
       "This function make a transition for certain node provided to the function(as node element or it's id string). It allows only to zoom elements with offsetWidth and offsetHeight properties - since SVG's doesn't have those, it is impossible to perform it on such elements.",
   },
+  goBack: {
+    type: [
+      "function(animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
+    parameters: [
+      "animationTime: number = 300",
+      "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
+    ],
+    description:
+      "Animates to the previous settled transformation from the history. The history is recorded when the gestures and the animations finish.",
+  },
+  goForward: {
+    type: [
+      "function(animationTime, animationName, signal): Promise<{ state, completed }>",
+    ],
+    parameters: [
+      "animationTime: number = 300",
+      "animationName: string = easeOut",
+      "signal: AbortSignal = undefined",
+    ],
+    description:
+      "Animates to the next transformation from the history, after going back.",
+  },
+  canGoBack: {
+    type: ["function(): boolean"],
+    parameters: [],
+    description: "Checks if there is a previous transformation in the history.",
+  },
+  canGoForward: {
+    type: ["function(): boolean"],
+    parameters: [],
+    description: "Checks if there is a next transformation in the history.",
+  },
 };
 
 export const getHandlersTable = (): ControlsFnOptionsType[] => {
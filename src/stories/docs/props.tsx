@@ -4,6 +4,14 @@ import { ReactZoomPanPinchProps } from "models";
 import { initialSetup, initialState } from "../../constants/state.constants";
 import { animations } from "../../core/animations/animations.constants";
 
+const animationTypes = [
+  ...Object.keys(animations),
+  "(t: number) => number",
+  "cubic-bezier(x1, y1, x2, y2)",
+  "{ type: 'spring', stiffness?, damping?, mass? }",
+  "{ type: 'flyTo', curvature?, speed?, easing? }",
+];
+
 export type ControlsOptionsType = {
   name: React.ReactNode;
   type: string[];
@@ -95,6 +103,32 @@ export const wrapperPropsTable: ComponentProps = {
     description:
       "Position Y used only as initial value. It will be also used when triggering resetTransform() method or double click feature with 'reset' mode. Value should be provided in px.",
   },
+  initialRotation: {
+    type: ["number"],
+    defaultValue: String(initialState.rotation),
+    description:
+      "Rotation used only as initial value. It will be also used when triggering resetTransform() method or double click feature with 'reset' mode. Value should be provided in degrees.",
+  },
+  initialScaleX: {
+    type: ["number"],
+    defaultValue: String(initialState.scaleX),
+    description:
+      "Horizontal scale used only as initial value. It multiplies the scale along the X axis, eg. for stretching charts and timelines.",
+  },
+  initialScaleY: {
+    type: ["number"],
+    defaultValue: String(initialState.scaleY),
+    description:
+      "Vertical scale used only as initial value. It multiplies the scale along the Y axis.",
+  },
+  transform: {
+    type: [
+      "{ scale: number; positionX: number; positionY: number; rotation?: number; scaleX?: number; scaleY?: number }",
+    ],
+    defaultValue: "undefined",
+    description:
+      "Controlled transformation. When it's provided, gestures and methods don't change the transformation on their own, they propose new values with the onTransformChange callback and the component renders whatever is passed back.",
+  },
   disabled: {
     type: ["boolean"],
     defaultValue: String(initialSetup.disabled),
@@ -135,6 +169,12 @@ export const wrapperPropsTable: ComponentProps = {
     defaultValue: String(initialSetup.maxScale),
     description: "Bounding position which will limit the scale to given value",
   },
+  zoomLevels: {
+    type: ["number[]"],
+    defaultValue: "[]",
+    description:
+      "Fixed scales the zoom lands on, eg. [0.25, 0.5, 1, 2, 4]. Buttons, double click and wheel step to the next level and the pinch snaps to the nearest level when released. Levels apply to the uniform scale, the single axis zoom ignores them.",
+  },
   limitToBounds: {
     type: ["boolean"],
     defaultValue: String(initialSetup.limitToBounds),
@@ -147,6 +187,23 @@ export const wrapperPropsTable: ComponentProps = {
     description:
       "When the zoom goes under the 1 value, the library will keep the content component always in the center. Setting it to false will allow to move the scaled element.",
   },
+  boundsStrategy: {
+    type: [
+      '"cover"',
+      '"center"',
+      '"overscroll"',
+      "(state, sizes) => { minPositionX, maxPositionX, minPositionY, maxPositionY }",
+    ],
+    defaultValue: String(initialSetup.boundsStrategy),
+    description:
+      "How far the content can be moved when limitToBounds is enabled. 'cover' keeps the wrapper covered by the content, 'center' allows panning until the content edge reaches the wrapper center, 'overscroll' extends the cover bounds by boundsMargin. The function receives the transform state and the wrapper and content sizes, and returns the position bounds of the transformed content bounding box.",
+  },
+  boundsMargin: {
+    type: ["number"],
+    defaultValue: String(initialSetup.boundsMargin),
+    description:
+      "Margin in pixels by which the 'overscroll' bounds strategy lets the content move past the wrapper edges.",
+  },
   centerOnInit: {
     type: ["boolean"],
     defaultValue: String(initialSetup.centerOnInit),
@@ -160,7 +217,7 @@ export const wrapperPropsTable: ComponentProps = {
       "Used to disable panning, zooming boundary padding effect. By enabling this option, you will not be able to zoom outside the image area.",
   },
   customTransform: {
-    type: ["function"],
+    type: ["(x, y, scale, rotation, scaleX, scaleY) => string"],
     defaultValue: "undefined",
     description:
       "We can provide custom transform function to provide different way of handling our transform logic. If we need performance we can import getMatrixTransformStyles functions and replace default one. WARNING: default transform prevents svg blur on the safari.",
@@ -171,6 +228,12 @@ export const wrapperPropsTable: ComponentProps = {
     description:
       "Enable smooth scrolling by multiplying the scroll delta with the smooth step factor.",
   },
+  inputMode: {
+    type: ["legacy", "pointer"],
+    defaultValue: String(initialSetup.inputMode),
+    description:
+      "Source of the mouse, touch and pen input. 'legacy' listens to the mouse events on window and to the touch events on the wrapper. 'pointer' handles every input with the Pointer Events and pointer capture, which also allows pen input and pinching with mixed pointers. It's read when the component initializes.",
+  },
   wheel: {
     wheel: {
       type: [""],
@@ -218,6 +281,12 @@ export const wrapperPropsTable: ComponentProps = {
       description:
         "List of the class names or tags that should not activate this feature. (E.g. ['my-custom-class-name', 'div', 'a'])",
     },
+    axis: {
+      type: ["both", "x", "y"],
+      defaultValue: String(initialSetup.wheel.axis),
+      description:
+        "Axis zoomed by the wheel. The 'x' and 'y' modes change only the scaleX or scaleY of the state, eg. for zooming the time axis of charts.",
+    },
   },
   panning: {
     panning: {
@@ -298,12 +367,24 @@ export const wrapperPropsTable: ComponentProps = {
       description:
         "Disable the pinching zoom functionality, it will NOT affect mouse wheel/touchpad zooming.",
     },
+    allowRotation: {
+      type: ["boolean"],
+      defaultValue: String(initialSetup.pinch.allowRotation),
+      description:
+        "Allow rotating the content with the two-finger rotation gesture. Bounds are calculated for the rotated content box.",
+    },
     excluded: {
       type: ["string[]"],
       defaultValue: String(initialSetup.pinch.excluded),
       description:
         "List of the class names or tags that should not activate this feature. (E.g. ['my-custom-class-name', 'div', 'a'])",
     },
+    axis: {
+      type: ["both", "x", "y", "dominant"],
+      defaultValue: String(initialSetup.pinch.axis),
+      description:
+        "Axis zoomed by the pinch. The 'dominant' mode zooms the axis with the bigger finger separation at the pinch start. Rotation is disabled for the single axis pinch.",
+    },
   },
   doubleClick: {
     doubleClick: {
@@ -334,9 +415,10 @@ export const wrapperPropsTable: ComponentProps = {
       description: "Time of the triggered double click animation.",
     },
     animationType: {
-      type: Object.keys(animations),
+      type: animationTypes,
       defaultValue: String(initialSetup.doubleClick.animationType),
-      description: "Animations types to choose from.",
+      description:
+        "Animation type - the easing name, custom easing function, css cubic-bezier() string, spring config or fly-to config.",
     },
     excluded: {
       type: ["string[]"],
@@ -345,6 +427,180 @@ export const wrapperPropsTable: ComponentProps = {
         "List of the class names or tags that should not activate this feature. (E.g. ['my-custom-class-name', 'div', 'a'])",
     },
   },
+  keyboard: {
+    keyboard: {
+      type: [""],
+      defaultValue: "",
+      description: "",
+    },
+    disabled: {
+      type: ["boolean"],
+      defaultValue: String(initialSetup.keyboard.disabled),
+      description:
+        "Disable the keyboard navigation, disabled by default. When enabled, the wrapper gets tabIndex 0 and the keys work only when the wrapper or one of its children is focused.",
+    },
+    panStep: {
+      type: ["number"],
+      defaultValue: String(initialSetup.keyboard.panStep),
+      description: "Distance in pixels of the single pan key press.",
+    },
+    zoomStep: {
+      type: ["number"],
+      defaultValue: String(initialSetup.keyboard.zoomStep),
+      description: "The zoom step of the single zoom key press.",
+    },
+    animationTime: {
+      type: ["number"],
+      defaultValue: String(initialSetup.keyboard.animationTime),
+      description: "Time of the keyboard triggered animations.",
+    },
+    animationType: {
+      type: animationTypes,
+      defaultValue: String(initialSetup.keyboard.animationType),
+      description:
+        "Animation type - the easing name, custom easing function, css cubic-bezier() string, spring config or fly-to config.",
+    },
+    panUpKeys: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.panUpKeys),
+      description: "Keys (KeyboardEvent.key values) which pan up.",
+    },
+    panDownKeys: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.panDownKeys),
+      description: "Keys (KeyboardEvent.key values) which pan down.",
+    },
+    panLeftKeys: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.panLeftKeys),
+      description: "Keys (KeyboardEvent.key values) which pan left.",
+    },
+    panRightKeys: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.panRightKeys),
+      description: "Keys (KeyboardEvent.key values) which pan right.",
+    },
+    zoomInKeys: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.zoomInKeys),
+      description: "Keys (KeyboardEvent.key values) which zoom in.",
+    },
+    zoomOutKeys: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.zoomOutKeys),
+      description: "Keys (KeyboardEvent.key values) which zoom out.",
+    },
+    resetKeys: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.resetKeys),
+      description:
+        "Keys (KeyboardEvent.key values) which reset the transformation.",
+    },
+    fitKeys: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.fitKeys),
+      description:
+        "Keys (KeyboardEvent.key values) which fit the content into the wrapper.",
+    },
+    excluded: {
+      type: ["string[]"],
+      defaultValue: String(initialSetup.keyboard.excluded),
+      description:
+        "List of the class names or tags that should not activate this feature. Inputs, textareas, selects and editable elements are always excluded.",
+    },
+  },
+  history: {
+    history: {
+      type: [""],
+      defaultValue: "",
+      description: "",
+    },
+    disabled: {
+      type: ["boolean"],
+      defaultValue: String(initialSetup.history.disabled),
+      description:
+        "Disable recording the transformations for the goBack and goForward methods.",
+    },
+    limit: {
+      type: ["number"],
+      defaultValue: String(initialSetup.history.limit),
+      description:
+        "Maximal number of the transformations kept in the history. The oldest ones are removed first.",
+    },
+  },
+  viewportInsets: {
+    viewportInsets: {
+      type: [""],
+      defaultValue: "",
+      description: "",
+    },
+    top: {
+      type: ["number"],
+      defaultValue: String(initialSetup.viewportInsets.top),
+      description:
+        "Height of the UI covering the top edge of the wrapper, in pixels.",
+    },
+    right: {
+      type: ["number"],
+      defaultValue: String(initialSetup.viewportInsets.right),
+      description:
+        "Width of the UI covering the right edge of the wrapper, in pixels.",
+    },
+    bottom: {
+      type: ["number"],
+      defaultValue: String(initialSetup.viewportInsets.bottom),
+      description:
+        "Height of the UI covering the bottom edge of the wrapper, in pixels.",
+    },
+    left: {
+      type: ["number"],
+      defaultValue: String(initialSetup.viewportInsets.left),
+      description:
+        "Width of the UI covering the left edge of the wrapper, in pixels.",
+    },
+  },
+  snap: {
+    snap: {
+      type: [""],
+      defaultValue: "",
+      description: "",
+    },
+    disabled: {
+      type: ["boolean"],
+      defaultValue: String(initialSetup.snap.disabled),
+      description:
+        "Disable settling the panning on the snap targets. Snapping is active only when the grid, the page selector or the getSnapTargets callback is provided.",
+    },
+    gridX: {
+      type: ["number"],
+      defaultValue: String(initialSetup.snap.gridX),
+      description:
+        "Horizontal grid interval in the content pixels. The left edge of the viewport lands on the grid line.",
+    },
+    gridY: {
+      type: ["number"],
+      defaultValue: String(initialSetup.snap.gridY),
+      description:
+        "Vertical grid interval in the content pixels. The top edge of the viewport lands on the grid line.",
+    },
+    pageSelector: {
+      type: ["string"],
+      defaultValue: `"${initialSetup.snap.pageSelector}"`,
+      description:
+        "Selector of the page elements inside the content. The panning settles with the nearest page aligned to the top-left corner of the viewport.",
+    },
+    animationTime: {
+      type: ["number"],
+      defaultValue: String(initialSetup.snap.animationTime),
+      description: "Time of the animation to the snap target.",
+    },
+    animationType: {
+      type: animationTypes,
+      defaultValue: String(initialSetup.snap.animationType),
+      description:
+        "Animation type - the easing name, custom easing function, css cubic-bezier() string, spring config or fly-to config.",
+    },
+  },
   zoomAnimation: {
     zoomAnimation: {
       type: [""],
@@ -368,9 +624,10 @@ export const wrapperPropsTable: ComponentProps = {
       description: "Time of the triggered double click animation.",
     },
     animationType: {
-      type: Object.keys(animations),
+      type: animationTypes,
       defaultValue: String(initialSetup.zoomAnimation.animationType),
-      description: "Animations types to choose from.",
+      description:
+        "Animation type - the easing name, custom easing function, css cubic-bezier() string, spring config or fly-to config.",
     },
   },
   alignmentAnimation: {
@@ -408,9 +665,22 @@ export const wrapperPropsTable: ComponentProps = {
       description: "Time of the alignment animation.",
     },
     animationType: {
-      type: Object.keys(animations),
+      type: animationTypes,
       defaultValue: String(initialSetup.alignmentAnimation.animationType),
-      description: "Animations types to choose from.",
+      description:
+        "Animation type - the easing name, custom easing function, css cubic-bezier() string, spring config or fly-to config.",
+    },
+    elastic: {
+      type: ["boolean"],
+      defaultValue: String(initialSetup.alignmentAnimation.elastic),
+      description:
+        "Replaces the size padding with the rubber-band resistance. Panning and pinching past the bounds, minScale and maxScale get progressively harder and the content springs back on release. Use the spring animationType for the iOS-like release.",
+    },
+    elasticity: {
+      type: ["number"],
+      defaultValue: String(initialSetup.alignmentAnimation.elasticity),
+      description:
+        "Resistance constant of the elastic mode, lower values resist more. 0 clamps the content to the limits.",
     },
   },
   velocityAnimation: {
@@ -436,9 +706,10 @@ export const wrapperPropsTable: ComponentProps = {
       description: "Time of the triggered double click animation.",
     },
     animationType: {
-      type: Object.keys(animations),
+      type: animationTypes,
       defaultValue: String(initialSetup.velocityAnimation.animationType),
-      description: "Animations types to choose from.",
+      description:
+        "Animation type - the easing name, custom easing function, css cubic-bezier() string, spring config or fly-to config.",
     },
     equalToMove: {
       type: ["boolean"],
@@ -512,11 +783,27 @@ export const wrapperPropsTable: ComponentProps = {
   },
   onTransformed: {
     type: [
-      "(ref: ReactZoomPanPinchRef, state: { scale: number; positionX: number; positionY: number } ) => void",
+      "(ref: ReactZoomPanPinchRef, state: { scale: number; positionX: number; positionY: number; rotation: number; scaleX: number; scaleY: number } ) => void",
     ],
     defaultValue: "undefined",
     description: "Callback fired when on each transform",
   },
+  onTransformChange: {
+    type: [
+      "(ref: ReactZoomPanPinchRef, state: { scale: number; positionX: number; positionY: number; rotation: number; scaleX: number; scaleY: number } ) => void",
+    ],
+    defaultValue: "undefined",
+    description:
+      "Callback fired with every proposed transformation. Use it to update the controlled transform prop.",
+  },
+  getSnapTargets: {
+    type: [
+      "(ref: ReactZoomPanPinchRef, position: { x: number; y: number }) => { x: number; y: number }[]",
+    ],
+    defaultValue: "undefined",
+    description:
+      "Returns the candidate transform positions (positionX, positionY) for the projected landing position of the panning. The nearest one is used.",
+  },
   onInit: {
     type: ["(ref: ReactZoomPanPinchRef) => void"],
     defaultValue: "undefined",
@@ -0,0 +1,38 @@
+import React from "react";
+
+import { Overlay, TransformComponent, TransformWrapper } from "components";
+import { normalizeArgs } from "../../utils";
+import exampleImg from "../../assets/map.jpg";
+import { ReactComponent as Pin } from "../../assets/pin.svg";
+
+const markers = [
+  { x: 100, y: 150, label: "West" },
+  { x: 300, y: 80, label: "North" },
+  { x: 500, y: 200, label: "East" },
+];
+
+export const Example: React.FC<any> = (args: any) => {
+  return (
+    <TransformWrapper {...normalizeArgs(args)} maxScale={100}>
+      <TransformComponent
+        wrapperStyle={{
+          width: "700px",
+          height: "500px",
+          maxWidth: "100%",
+          maxHeight: "calc(100vh - 50px)",
+        }}
+      >
+        <img
+          style={{ width: "600px", height: "300px" }}
+          src={exampleImg}
+          alt=""
+        />
+        {markers.map(({ x, y, label }) => (
+          <Overlay key={label} x={x} y={y} anchor="bottom-center" hideOffscreen>
+            <Pin fill="red" style={{ width: "20px", height: "20px" }} />
+          </Overlay>
+        ))}
+      </TransformComponent>
+    </TransformWrapper>
+  );
+};
@@ -0,0 +1,52 @@
+import React from "react";
+
+import {
+  TiledImage,
+  TiledImageSourceType,
+  TransformComponent,
+  TransformWrapper,
+} from "components";
+import { Controls, normalizeArgs } from "stories/utils";
+
+const colors = ["#264653", "#2a9d8f", "#e9c46a", "#f4a261", "#e76f51"];
+
+// Generated tiles show their level and position instead of the real image
+const getTileUrl = (level: number, x: number, y: number) => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256">
+    <rect width="256" height="256" fill="${
+      colors[level % colors.length]
+    }" stroke="white"/>
+    <text x="128" y="136" font-size="24" fill="white" text-anchor="middle">${level} / ${x}_${y}</text>
+  </svg>`;
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const source: TiledImageSourceType = {
+  width: 16384,
+  height: 8192,
+  tileSize: 256,
+  url: getTileUrl,
+};
+
+export const Template = (args: any) => {
+  return (
+    <TransformWrapper {...normalizeArgs(args)} maxScale={16}>
+      {(utils) => (
+        <div>
+          <Controls {...utils} />
+          <TransformComponent
+            wrapperStyle={{
+              width: "800px",
+              height: "500px",
+              maxWidth: "100%",
+              maxHeight: "calc(100vh - 50px)",
+            }}
+          >
+            <TiledImage source={source} width={1024} throttle={50} />
+          </TransformComponent>
+        </div>
+      )}
+    </TransformWrapper>
+  );
+};
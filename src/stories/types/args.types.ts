@@ -66,6 +66,15 @@ export const argsTypes = {
       type: { summary: "array" },
     },
   },
+  "wheel.axis": {
+    defaultValue: initialSetup.wheel.axis,
+    options: ["both", "x", "y"],
+    control: { type: "select" },
+    table: {
+      defaultValue: { summary: "both" },
+      type: { summary: "string" },
+    },
+  },
   panning: {
     table: {
       disable: true,
@@ -150,6 +159,14 @@ export const argsTypes = {
       type: { summary: "boolean" },
     },
   },
+  "pinch.allowRotation": {
+    defaultValue: initialSetup.pinch.allowRotation,
+    control: { type: "boolean" },
+    table: {
+      defaultValue: { summary: "false" },
+      type: { summary: "boolean" },
+    },
+  },
   "pinch.excluded": {
     defaultValue: initialSetup.pinch.excluded,
     control: { type: "array" },
@@ -158,6 +175,15 @@ export const argsTypes = {
       type: { summary: "array" },
     },
   },
+  "pinch.axis": {
+    defaultValue: initialSetup.pinch.axis,
+    options: ["both", "x", "y", "dominant"],
+    control: { type: "select" },
+    table: {
+      defaultValue: { summary: "both" },
+      type: { summary: "string" },
+    },
+  },
   doubleClick: {
     table: {
       disable: true,
@@ -189,6 +215,72 @@ export const argsTypes = {
       type: { summary: "array" },
     },
   },
+  keyboard: {
+    table: {
+      disable: true,
+    },
+  },
+  "keyboard.disabled": {
+    defaultValue: initialSetup.keyboard.disabled,
+    control: { type: "boolean" },
+    table: {
+      defaultValue: { summary: "false" },
+      type: { summary: "boolean" },
+    },
+  },
+  "keyboard.panStep": {
+    defaultValue: initialSetup.keyboard.panStep,
+    control: {
+      type: "number",
+      min: 0,
+    },
+    table: {
+      defaultValue: { summary: "50" },
+    },
+  },
+  "keyboard.zoomStep": {
+    defaultValue: initialSetup.keyboard.zoomStep,
+    control: {
+      type: "number",
+      min: 0,
+    },
+    table: {
+      defaultValue: { summary: "0.5" },
+    },
+  },
+  snap: {
+    table: {
+      disable: true,
+    },
+  },
+  "snap.disabled": {
+    defaultValue: initialSetup.snap.disabled,
+    control: { type: "boolean" },
+    table: {
+      defaultValue: { summary: "false" },
+      type: { summary: "boolean" },
+    },
+  },
+  "snap.gridX": {
+    defaultValue: initialSetup.snap.gridX,
+    control: {
+      type: "number",
+      min: 0,
+    },
+    table: {
+      defaultValue: { summary: "0" },
+    },
+  },
+  "snap.gridY": {
+    defaultValue: initialSetup.snap.gridY,
+    control: {
+      type: "number",
+      min: 0,
+    },
+    table: {
+      defaultValue: { summary: "0" },
+    },
+  },
 };
 // doubleClick: {
 //   disabled: false,
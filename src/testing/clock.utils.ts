@@ -0,0 +1,88 @@
+type ClockType = {
+  now: number;
+  lastFrameId: number;
+  frames: Map<number, FrameRequestCallback>;
+};
+
+const frameTime = 16;
+const maxFlushTime = 60000;
+
+let clock: ClockType | null = null;
+
+const getClock = (): ClockType => {
+  if (!clock) {
+    throw new Error(
+      "Testing clock is not installed. Call setupTestingMocks() first.",
+    );
+  }
+  return clock;
+};
+
+/**
+ * Replaces Date.now and the animation frames with the virtual clock,
+ * so animations only progress when the time is advanced.
+ * Returns the function restoring the original implementations.
+ */
+export const installClock = (): (() => void) => {
+  const originalNow = Date.now;
+  const originalRequestAnimationFrame = window.requestAnimationFrame;
+  const originalCancelAnimationFrame = window.cancelAnimationFrame;
+
+  const currentClock: ClockType = {
+    now: originalNow(),
+    lastFrameId: 0,
+    frames: new Map(),
+  };
+  clock = currentClock;
+
+  Date.now = () => currentClock.now;
+  window.requestAnimationFrame = (callback: FrameRequestCallback) => {
+    currentClock.lastFrameId += 1;
+    currentClock.frames.set(currentClock.lastFrameId, callback);
+    return currentClock.lastFrameId;
+  };
+  window.cancelAnimationFrame = (id: number) => {
+    currentClock.frames.delete(id);
+  };
+
+  return () => {
+    Date.now = originalNow;
+    window.requestAnimationFrame = originalRequestAnimationFrame;
+    window.cancelAnimationFrame = originalCancelAnimationFrame;
+    if (clock === currentClock) {
+      clock = null;
+    }
+  };
+};
+
+/**
+ * Moves the virtual clock forward without running the animation frames
+ */
+export const advanceTime = (time: number): void => {
+  getClock().now += time;
+};
+
+/**
+ * Runs the animation frames requested so far after a single frame time
+ */
+export const runAnimationFrame = (): void => {
+  const currentClock = getClock();
+  const frames = Array.from(currentClock.frames.values());
+
+  currentClock.frames.clear();
+  currentClock.now += frameTime;
+  frames.forEach((callback) => callback(currentClock.now));
+};
+
+/**
+ * Runs the animation frames until every animation has finished
+ */
+export const flushAnimations = (maxTime = maxFlushTime): void => {
+  const currentClock = getClock();
+  let elapsedTime = 0;
+
+  while (currentClock.frames.size && elapsedTime < maxTime) {
+    runAnimationFrame();
+    elapsedTime += frameTime;
+  }
+};
@@ -0,0 +1,119 @@
+export type PointerKindType = "mouse" | "pen" | "touch";
+
+export type TestPointerType = {
+  identifier: number;
+  clientX: number;
+  clientY: number;
+};
+
+const defineEventProperties = (
+  event: Event,
+  properties: Record<string, unknown>,
+): void => {
+  Object.keys(properties).forEach((key) => {
+    Object.defineProperty(event, key, {
+      configurable: true,
+      value: properties[key],
+    });
+  });
+};
+
+export const createMouseEvent = (
+  type: string,
+  { clientX, clientY }: TestPointerType,
+  button = 0,
+): MouseEvent => {
+  const event = new MouseEvent(type, {
+    bubbles: true,
+    cancelable: true,
+    clientX,
+    clientY,
+    button,
+  });
+  // jsdom has no layout, so page and client coordinates are equal
+  defineEventProperties(event, { pageX: clientX, pageY: clientY });
+  return event;
+};
+
+export const createPointerEvent = (
+  type: string,
+  pointer: TestPointerType,
+  pointerType: PointerKindType,
+  isPrimary = true,
+): PointerEvent => {
+  const { identifier, clientX, clientY } = pointer;
+  const init = {
+    bubbles: true,
+    cancelable: true,
+    clientX,
+    clientY,
+    button: 0,
+    pointerId: identifier,
+    pointerType,
+    isPrimary,
+  };
+
+  // jsdom doesn't implement the PointerEvent constructor
+  if (typeof window.PointerEvent !== "undefined") {
+    return new window.PointerEvent(type, init);
+  }
+
+  const event = new MouseEvent(type, init);
+  defineEventProperties(event, {
+    pageX: clientX,
+    pageY: clientY,
+    pointerId: identifier,
+    pointerType,
+    isPrimary,
+  });
+  return event as PointerEvent;
+};
+
+export const createTouchEvent = (
+  type: string,
+  touches: TestPointerType[],
+  changedTouches: TestPointerType[],
+  target: EventTarget,
+): TouchEvent => {
+  const toTouch = ({ identifier, clientX, clientY }: TestPointerType) => ({
+    identifier,
+    clientX,
+    clientY,
+    pageX: clientX,
+    pageY: clientY,
+    screenX: clientX,
+    screenY: clientY,
+    target,
+  });
+
+  const event =
+    typeof window.TouchEvent !== "undefined"
+      ? new window.TouchEvent(type, { bubbles: true, cancelable: true })
+      : new Event(type, { bubbles: true, cancelable: true });
+
+  defineEventProperties(event, {
+    touches: touches.map(toTouch),
+    targetTouches: touches.map(toTouch),
+    changedTouches: changedTouches.map(toTouch),
+  });
+  return event as TouchEvent;
+};
+
+export const createWheelEvent = (
+  { clientX, clientY }: Omit<TestPointerType, "identifier">,
+  deltaX: number,
+  deltaY: number,
+  ctrlKey: boolean,
+): WheelEvent => {
+  const event = new WheelEvent("wheel", {
+    bubbles: true,
+    cancelable: true,
+    clientX,
+    clientY,
+    deltaX,
+    deltaY,
+    ctrlKey,
+  });
+  defineEventProperties(event, { x: clientX, y: clientY });
+  return event;
+};
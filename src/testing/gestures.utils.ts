@@ -0,0 +1,206 @@
+import { PositionType } from "../models";
+import { advanceTime } from "./clock.utils";
+import {
+  createMouseEvent,
+  createPointerEvent,
+  createTouchEvent,
+  createWheelEvent,
+  PointerKindType,
+  TestPointerType,
+} from "./events.utils";
+
+export type SimulatePanOptions = {
+  steps?: number;
+  stepTime?: number;
+  pointerType?: PointerKindType;
+  button?: number;
+};
+
+export type SimulateWheelOptions = {
+  deltaX?: number;
+  deltaY?: number;
+  ctrlKey?: boolean;
+  clientX?: number;
+  clientY?: number;
+};
+
+export type SimulatePinchOptions = {
+  center?: PositionType;
+  fromDistance?: number;
+  toDistance: number;
+  fromAngle?: number;
+  toAngle?: number;
+  steps?: number;
+  stepTime?: number;
+};
+
+// Separates gestures, so they are not recognized as a double tap
+const gesturePauseTime = 500;
+const defaultStepTime = 16;
+const defaultSteps = 10;
+
+const getElementCenter = (element: HTMLElement): PositionType => {
+  const { left, top, width, height } = element.getBoundingClientRect();
+  return { x: left + width / 2, y: top + height / 2 };
+};
+
+const getStepPosition = (
+  from: PositionType,
+  to: PositionType,
+  progress: number,
+): PositionType => ({
+  x: from.x + (to.x - from.x) * progress,
+  y: from.y + (to.y - from.y) * progress,
+});
+
+const dispatchPointer = (
+  target: HTMLElement,
+  phase: "down" | "move" | "up",
+  pointer: TestPointerType,
+  pointerType: PointerKindType,
+  isPrimary: boolean,
+  button: number,
+) => {
+  target.dispatchEvent(
+    createPointerEvent(`pointer${phase}`, pointer, pointerType, isPrimary),
+  );
+  // Browsers follow the primary mouse and pen pointers with mouse events
+  if (pointerType !== "touch" && isPrimary) {
+    target.dispatchEvent(createMouseEvent(`mouse${phase}`, pointer, button));
+  }
+};
+
+const dispatchTouches = (
+  target: HTMLElement,
+  type: "touchstart" | "touchmove" | "touchend",
+  touches: TestPointerType[],
+  changedTouches: TestPointerType[],
+) => {
+  target.dispatchEvent(createTouchEvent(type, touches, changedTouches, target));
+};
+
+/**
+ * Drags the single pointer over the wrapper from one client point to another.
+ * Mouse, touch and pointer events are dispatched, so it works with every input mode.
+ */
+export const simulatePan = (
+  wrapper: HTMLElement,
+  from: PositionType,
+  to: PositionType,
+  options: SimulatePanOptions = {},
+): void => {
+  const {
+    steps = defaultSteps,
+    stepTime = defaultStepTime,
+    pointerType = "mouse",
+    button = 0,
+  } = options;
+  const isTouch = pointerType === "touch";
+  const toPointer = ({ x, y }: PositionType): TestPointerType => ({
+    identifier: 1,
+    clientX: x,
+    clientY: y,
+  });
+
+  advanceTime(gesturePauseTime);
+
+  const start = toPointer(from);
+  dispatchPointer(wrapper, "down", start, pointerType, true, button);
+  if (isTouch) dispatchTouches(wrapper, "touchstart", [start], [start]);
+
+  for (let i = 1; i <= steps; i += 1) {
+    advanceTime(stepTime);
+    const pointer = toPointer(getStepPosition(from, to, i / steps));
+    dispatchPointer(wrapper, "move", pointer, pointerType, true, button);
+    if (isTouch) dispatchTouches(wrapper, "touchmove", [pointer], [pointer]);
+  }
+
+  const end = toPointer(to);
+  dispatchPointer(wrapper, "up", end, pointerType, true, button);
+  if (isTouch) dispatchTouches(wrapper, "touchend", [], [end]);
+};
+
+/**
+ * Dispatches the single wheel event, by default over the wrapper center
+ */
+export const simulateWheel = (
+  wrapper: HTMLElement,
+  options: SimulateWheelOptions = {},
+): void => {
+  const center = getElementCenter(wrapper);
+  const {
+    deltaX = 0,
+    deltaY = -100,
+    ctrlKey = false,
+    clientX = center.x,
+    clientY = center.y,
+  } = options;
+
+  advanceTime(defaultStepTime);
+  wrapper.dispatchEvent(
+    createWheelEvent({ clientX, clientY }, deltaX, deltaY, ctrlKey),
+  );
+};
+
+/**
+ * Spreads or pinches two touches around the center point, by default the wrapper center.
+ * Angles are in degrees, changing them rotates the touches.
+ */
+export const simulatePinch = (
+  wrapper: HTMLElement,
+  options: SimulatePinchOptions,
+): void => {
+  const {
+    center = getElementCenter(wrapper),
+    fromDistance = 100,
+    toDistance,
+    fromAngle = 0,
+    toAngle = fromAngle,
+    steps = defaultSteps,
+    stepTime = defaultStepTime,
+  } = options;
+
+  const getTouches = (progress: number): TestPointerType[] => {
+    const distance = fromDistance + (toDistance - fromDistance) * progress;
+    const angle =
+      ((fromAngle + (toAngle - fromAngle) * progress) * Math.PI) / 180;
+    const offsetX = (Math.cos(angle) * distance) / 2;
+    const offsetY = (Math.sin(angle) * distance) / 2;
+
+    return [
+      {
+        identifier: 1,
+        clientX: center.x - offsetX,
+        clientY: center.y - offsetY,
+      },
+      {
+        identifier: 2,
+        clientX: center.x + offsetX,
+        clientY: center.y + offsetY,
+      },
+    ];
+  };
+
+  advanceTime(gesturePauseTime);
+
+  const startTouches = getTouches(0);
+  startTouches.forEach((touch, index) =>
+    dispatchPointer(wrapper, "down", touch, "touch", index === 0, 0),
+  );
+  dispatchTouches(wrapper, "touchstart", startTouches, startTouches);
+
+  for (let i = 1; i <= steps; i += 1) {
+    advanceTime(stepTime);
+    const touches = getTouches(i / steps);
+    touches.forEach((touch, index) =>
+      dispatchPointer(wrapper, "move", touch, "touch", index === 0, 0),
+    );
+    dispatchTouches(wrapper, "touchmove", touches, touches);
+  }
+
+  const endTouches = getTouches(1);
+  endTouches.forEach((touch, index) =>
+    dispatchPointer(wrapper, "up", touch, "touch", index === 0, 0),
+  );
+  dispatchTouches(wrapper, "touchend", [], endTouches);
+};
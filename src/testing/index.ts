@@ -0,0 +1,4 @@
+export * from "./mocks.utils";
+export * from "./clock.utils";
+export * from "./gestures.utils";
+export * from "./events.utils";
@@ -0,0 +1,227 @@
+import { installClock } from "./clock.utils";
+
+export type MockedSizeType = {
+  width: number;
+  height: number;
+  left?: number;
+  top?: number;
+};
+
+type MatrixType = [number, number, number, number, number, number];
+
+const identityMatrix: MatrixType = [1, 0, 0, 1, 0, 0];
+
+const observers = new Set<MockResizeObserver>();
+
+class MockResizeObserver {
+  private targets = new Set<Element>();
+
+  constructor(private callback: ResizeObserverCallback) {}
+
+  observe = (target: Element) => {
+    this.targets.add(target);
+    observers.add(this);
+  };
+
+  unobserve = (target: Element) => {
+    this.targets.delete(target);
+  };
+
+  disconnect = () => {
+    this.targets.clear();
+    observers.delete(this);
+  };
+
+  notify = (target: Element) => {
+    if (!this.targets.has(target)) return;
+
+    const entry = {
+      target,
+      contentRect: target.getBoundingClientRect(),
+    } as ResizeObserverEntry;
+
+    this.callback([entry], this as unknown as ResizeObserver);
+  };
+}
+
+const createRect = (
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+): DOMRect => {
+  const rect = {
+    x: left,
+    y: top,
+    left,
+    top,
+    width,
+    height,
+    right: left + width,
+    bottom: top + height,
+  };
+  return { ...rect, toJSON: () => rect };
+};
+
+const multiplyMatrix = (m1: MatrixType, m2: MatrixType): MatrixType => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+const parseAngle = (value: string): number => {
+  const angle = parseFloat(value);
+  if (value.endsWith("rad")) return angle;
+  if (value.endsWith("turn")) return angle * 2 * Math.PI;
+  return (angle * Math.PI) / 180;
+};
+
+const getTransformFunctionMatrix = (
+  name: string,
+  args: string[],
+): MatrixType => {
+  const values = args.map((arg) => parseFloat(arg) || 0);
+
+  switch (name) {
+    case "translate":
+      return [1, 0, 0, 1, values[0], values[1] ?? 0];
+    case "translate3d":
+      return [1, 0, 0, 1, values[0], values[1]];
+    case "translateX":
+      return [1, 0, 0, 1, values[0], 0];
+    case "translateY":
+      return [1, 0, 0, 1, 0, values[0]];
+    case "scale":
+    case "scale3d":
+      return [values[0], 0, 0, values[1] ?? values[0], 0, 0];
+    case "scaleX":
+      return [values[0], 0, 0, 1, 0, 0];
+    case "scaleY":
+      return [1, 0, 0, values[0], 0, 0];
+    case "rotate":
+    case "rotateZ": {
+      const angle = parseAngle(args[0]);
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      return [cos, sin, -sin, cos, 0, 0];
+    }
+    case "matrix":
+      return values.slice(0, 6) as MatrixType;
+    case "matrix3d":
+      return [
+        values[0],
+        values[1],
+        values[4],
+        values[5],
+        values[12],
+        values[13],
+      ];
+    default:
+      return identityMatrix;
+  }
+};
+
+/**
+ * Converts the 2D part of the css transform into the [a, b, c, d, e, f] matrix
+ */
+export const parseTransform = (transform: string): MatrixType => {
+  const transformFunctions = transform.matchAll(/([a-zA-Z0-9]+)\(([^)]*)\)/g);
+
+  return Array.from(transformFunctions).reduce<MatrixType>(
+    (matrix, [, name, args]) =>
+      multiplyMatrix(
+        matrix,
+        getTransformFunctionMatrix(name, args.split(/[\s,]+/).filter(Boolean)),
+      ),
+    identityMatrix,
+  );
+};
+
+const defineSize = (element: HTMLElement, width: number, height: number) => {
+  Object.defineProperties(element, {
+    offsetWidth: { configurable: true, get: () => width },
+    offsetHeight: { configurable: true, get: () => height },
+    clientWidth: { configurable: true, get: () => width },
+    clientHeight: { configurable: true, get: () => height },
+  });
+};
+
+/**
+ * Notifies the mocked ResizeObservers which are observing the element
+ */
+export const triggerResize = (element: Element): void => {
+  observers.forEach((observer) => observer.notify(element));
+};
+
+/**
+ * Gives the element static layout size and position, eg. for the wrapper component
+ */
+export const mockElementSize = (
+  element: HTMLElement,
+  { width, height, left = 0, top = 0 }: MockedSizeType,
+): void => {
+  defineSize(element, width, height);
+  Object.defineProperty(element, "getBoundingClientRect", {
+    configurable: true,
+    value: () => createRect(left, top, width, height),
+  });
+  triggerResize(element);
+};
+
+/**
+ * Gives the transformed element its layout size. Its client rect is derived
+ * from the parent rect and the current transform, like in the browser.
+ */
+export const mockContentSize = (
+  element: HTMLElement,
+  { width, height }: Omit<MockedSizeType, "left" | "top">,
+): void => {
+  defineSize(element, width, height);
+  Object.defineProperty(element, "getBoundingClientRect", {
+    configurable: true,
+    value: () => {
+      const parentRect = element.parentElement?.getBoundingClientRect();
+      const [a, b, c, d, e, f] = parseTransform(element.style.transform);
+      const corners = [
+        [0, 0],
+        [width, 0],
+        [0, height],
+        [width, height],
+      ].map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+
+      const xs = corners.map(([x]) => x);
+      const ys = corners.map(([, y]) => y);
+      const left = Math.min(...xs);
+      const top = Math.min(...ys);
+
+      return createRect(
+        (parentRect?.left ?? 0) + left,
+        (parentRect?.top ?? 0) + top,
+        Math.max(...xs) - left,
+        Math.max(...ys) - top,
+      );
+    },
+  });
+  triggerResize(element);
+};
+
+/**
+ * Installs the ResizeObserver mock and the virtual clock.
+ * Returns the cleanup function.
+ */
+export const setupTestingMocks = (): (() => void) => {
+  const originalResizeObserver = window.ResizeObserver;
+  const restoreClock = installClock();
+
+  window.ResizeObserver =
+    MockResizeObserver as unknown as typeof ResizeObserver;
+
+  return () => {
+    observers.clear();
+    window.ResizeObserver = originalResizeObserver;
+    restoreClock();
+  };
+};
@@ -1,11 +1,17 @@
 import {
+  canGoBack,
+  canGoForward,
   centerView,
+  goBack,
+  goForward,
   resetTransform,
   setTransform,
   zoomIn,
   zoomOut,
   zoomToElement,
+  zoomToElements,
   zoomToPoint,
+  zoomToRect,
 } from "../core/handlers/handlers.logic";
 import {
   ReactZoomPanPinchContentRef,
@@ -25,7 +31,13 @@ export const getControls = (
     resetTransform: resetTransform(contextInstance),
     centerView: centerView(contextInstance),
     zoomToElement: zoomToElement(contextInstance),
+    zoomToElements: zoomToElements(contextInstance),
+    zoomToRect: zoomToRect(contextInstance),
     zoomToPoint: zoomToPoint(contextInstance),
+    goBack: goBack(contextInstance),
+    goForward: goForward(contextInstance),
+    canGoBack: canGoBack(contextInstance),
+    canGoForward: canGoForward(contextInstance),
   };
 };
 
@@ -6,3 +6,4 @@ export * from "./helpers.utils";
 export * from "./state.utils";
 export * from "./styles.utils";
 export * from "./ref.utils";
+export * from "./url.utils";
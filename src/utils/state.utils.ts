@@ -8,11 +8,20 @@ import { initialSetup, initialState } from "../constants/state.constants";
 export const createState = (
   props: ReactZoomPanPinchProps,
 ): ReactZoomPanPinchState => {
+  const { transform } = props;
+  const scale = transform?.scale ?? props.initialScale ?? initialState.scale;
+
   return {
-    previousScale: props.initialScale ?? initialState.scale,
-    scale: props.initialScale ?? initialState.scale,
-    positionX: props.initialPositionX ?? initialState.positionX,
-    positionY: props.initialPositionY ?? initialState.positionY,
+    previousScale: scale,
+    scale,
+    positionX:
+      transform?.positionX ?? props.initialPositionX ?? initialState.positionX,
+    positionY:
+      transform?.positionY ?? props.initialPositionY ?? initialState.positionY,
+    rotation:
+      transform?.rotation ?? props.initialRotation ?? initialState.rotation,
+    scaleX: transform?.scaleX ?? props.initialScaleX ?? initialState.scaleX,
+    scaleY: transform?.scaleY ?? props.initialScaleY ?? initialState.scaleY,
   };
 };
 
@@ -1,25 +1,39 @@
-import { StateType } from "models";
+import { StateType, ViewportInsetsType } from "models";
+import { getTransformedSize } from "../core/rotation/rotation.utils";
+import { getViewportArea } from "../core/viewport/viewport.utils";
 
 export const getTransformStyles = (
   x: number,
   y: number,
   scale: number,
+  rotation = 0,
+  scaleX = 1,
+  scaleY = 1,
 ): string => {
   // Standard translate prevents blurry svg on the safari
-  return `translate(${x}px, ${y}px) scale(${scale})`;
+  const rotate = rotation ? ` rotate(${rotation}deg)` : "";
+  const scaleStyle =
+    scaleX === 1 && scaleY === 1
+      ? `${scale}`
+      : `${scale * scaleX}, ${scale * scaleY}`;
+  return `translate(${x}px, ${y}px) scale(${scaleStyle})${rotate}`;
 };
 
 export const getMatrixTransformStyles = (
   x: number,
   y: number,
   scale: number,
+  rotation = 0,
+  scaleX = 1,
+  scaleY = 1,
 ): string => {
   // The shorthand for matrix does not work for Safari hence the need to explicitly use matrix3d
   // Refer to https://developer.mozilla.org/en-US/docs/Web/CSS/transform-function/matrix
-  const a = scale;
-  const b = 0;
-  const c = 0;
-  const d = scale;
+  const radians = (rotation * Math.PI) / 180;
+  const a = scale * scaleX * Math.cos(radians);
+  const b = scale * scaleY * Math.sin(radians);
+  const c = -scale * scaleX * Math.sin(radians);
+  const d = scale * scaleY * Math.cos(radians);
   const tx = x;
   const ty = y;
   return `matrix3d(${a}, ${b}, 0, 0, ${c}, ${d}, 0, 0, 0, 0, 1, 0, ${tx}, ${ty}, 0, 1)`;
@@ -29,16 +43,31 @@ export const getCenterPosition = (
   scale: number,
   wrapperComponent: HTMLDivElement,
   contentComponent: HTMLDivElement,
+  rotation = 0,
+  scaleX = 1,
+  scaleY = 1,
+  insets?: ViewportInsetsType,
 ): StateType => {
-  const contentWidth = contentComponent.offsetWidth * scale;
-  const contentHeight = contentComponent.offsetHeight * scale;
+  const viewport = getViewportArea(wrapperComponent, insets);
+  const { width, height, offsetX, offsetY } = getTransformedSize(
+    contentComponent.offsetWidth,
+    contentComponent.offsetHeight,
+    scale * scaleX,
+    scale * scaleY,
+    rotation,
+  );
 
-  const centerPositionX = (wrapperComponent.offsetWidth - contentWidth) / 2;
-  const centerPositionY = (wrapperComponent.offsetHeight - contentHeight) / 2;
+  const centerPositionX =
+    viewport.left + (viewport.width - width) / 2 - offsetX;
+  const centerPositionY =
+    viewport.top + (viewport.height - height) / 2 - offsetY;
 
   return {
     scale,
     positionX: centerPositionX,
     positionY: centerPositionY,
+    rotation,
+    scaleX,
+    scaleY,
   };
 };
@@ -0,0 +1,68 @@
+import { roundNumber } from "./calculations.utils";
+
+export type UrlSyncModeType = "hash" | "query";
+
+export type UrlViewportType = {
+  x: number;
+  y: number;
+  scale: number;
+};
+
+const getUrlParams = (url: URL, mode: UrlSyncModeType): URLSearchParams => {
+  return mode === "hash"
+    ? new URLSearchParams(url.hash.slice(1))
+    : url.searchParams;
+};
+
+/**
+ * Serializes the viewport as "x,y,scale"
+ */
+export const stringifyUrlViewport = ({ x, y, scale }: UrlViewportType) => {
+  return [roundNumber(x, 2), roundNumber(y, 2), roundNumber(scale, 3)].join(
+    ",",
+  );
+};
+
+export const parseUrlViewport = (value: string): UrlViewportType | null => {
+  const [x, y, scale] = value.split(",").map(Number);
+
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !(scale > 0)) {
+    return null;
+  }
+
+  return { x, y, scale };
+};
+
+export const readUrlParam = (
+  param: string,
+  mode: UrlSyncModeType,
+): string | null => {
+  const url = new URL(window.location.href);
+  return getUrlParams(url, mode).get(param);
+};
+
+/**
+ * Replaces the current history entry, so syncing doesn't flood the back button
+ */
+export const writeUrlParam = (
+  param: string,
+  value: string,
+  mode: UrlSyncModeType,
+): void => {
+  const url = new URL(window.location.href);
+  const params = getUrlParams(url, mode);
+
+  params.set(param, value);
+  // Commas are valid in the url, keep them readable
+  const search = params.toString().replace(/%2C/g, ",");
+
+  if (mode === "hash") {
+    url.hash = search;
+  } else {
+    url.search = search;
+  }
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, "", url.href);
+  }
+};
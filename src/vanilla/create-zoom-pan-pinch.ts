@@ -0,0 +1,97 @@
+import { ZoomPanPinch } from "../core/instance.core";
+import { baseClasses } from "../constants/state.constants";
+import {
+  ReactZoomPanPinchContentRef,
+  ReactZoomPanPinchProps,
+  ReactZoomPanPinchRef,
+  ReactZoomPanPinchState,
+} from "../models";
+import { getControls } from "../utils/context.utils";
+
+export type ZoomPanPinchOptions = Omit<
+  ReactZoomPanPinchProps,
+  "children" | "ref"
+>;
+
+export type ZoomPanPinchInstance = ReactZoomPanPinchContentRef & {
+  getState: () => ReactZoomPanPinchState;
+  subscribe: (callback: (ref: ReactZoomPanPinchRef) => void) => () => void;
+  update: (options: ZoomPanPinchOptions) => void;
+  destroy: () => void;
+};
+
+/**
+ * Applies the styles which TransformComponent gets from its css module.
+ * Returns the function restoring the previous inline styles.
+ */
+const applyBaseStyles = (
+  wrapperComponent: HTMLDivElement,
+  contentComponent: HTMLDivElement,
+): (() => void) => {
+  const { style: wrapperStyle } = wrapperComponent;
+  const { style: contentStyle } = contentComponent;
+  const previousWrapperStyle = {
+    position: wrapperStyle.position,
+    overflow: wrapperStyle.overflow,
+    userSelect: wrapperStyle.userSelect,
+  };
+  const previousContentStyle = {
+    transform: contentStyle.transform,
+    transformOrigin: contentStyle.transformOrigin,
+  };
+
+  wrapperComponent.classList.add(baseClasses.wrapperClass);
+  contentComponent.classList.add(baseClasses.contentClass);
+  wrapperStyle.position = wrapperStyle.position || "relative";
+  wrapperStyle.overflow = "hidden";
+  wrapperStyle.userSelect = "none";
+  contentStyle.transformOrigin = "0% 0%";
+
+  return () => {
+    wrapperComponent.classList.remove(baseClasses.wrapperClass);
+    contentComponent.classList.remove(baseClasses.contentClass);
+    Object.assign(wrapperStyle, previousWrapperStyle);
+    Object.assign(contentStyle, previousContentStyle);
+  };
+};
+
+/**
+ * Framework-agnostic version of the TransformWrapper and TransformComponent pair.
+ * The wrapper element captures the events and the content element gets transformed.
+ */
+export const createZoomPanPinch = (
+  wrapperComponent: HTMLDivElement,
+  contentComponent: HTMLDivElement,
+  options: ZoomPanPinchOptions = {},
+): ZoomPanPinchInstance => {
+  const instance = new ZoomPanPinch(options);
+  const restoreStyles = applyBaseStyles(wrapperComponent, contentComponent);
+  const hasTabIndex = wrapperComponent.hasAttribute("tabindex");
+
+  // Wrapper has to be focusable to receive the keyboard shortcuts
+  if (!hasTabIndex && !instance.setup.keyboard.disabled) {
+    wrapperComponent.setAttribute("tabindex", "0");
+  }
+
+  instance.init(wrapperComponent, contentComponent);
+
+  return {
+    ...getControls(instance),
+    getState: () => ({ ...instance.transformState }),
+    subscribe: (callback) => instance.onChange(callback),
+    update: (newOptions) =>
+      instance.update({ ...instance.props, ...newOptions }),
+    destroy: () => {
+      instance.cleanupWindowEvents();
+      instance.cleanupWrapperEvents(wrapperComponent);
+      instance.onChangeCallbacks.clear();
+      instance.onInitCallbacks.clear();
+      instance.onSettleCallbacks.clear();
+      instance.mounted = false;
+      restoreStyles();
+      if (!hasTabIndex) {
+        wrapperComponent.removeAttribute("tabindex");
+      }
+    },
+  };
+};
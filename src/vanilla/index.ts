@@ -0,0 +1,5 @@
+export * from "./create-zoom-pan-pinch";
+
+export * from "../utils/styles.utils";
+export * from "../models/context.model";
+export * from "../models/calculations.model";